@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { 
   FileText, 
   Upload, 
@@ -19,73 +19,299 @@ import {
   Eye,
   EyeOff
 } from 'lucide-react';
-import { FloorPlan, Ilot, Corridor, AnalysisResults } from './types/cad';
+import { FloorPlan, Ilot, Corridor, Layer, LayerMappingProfile, Building, CADAnalysisResult, BuildingAnalysisResult, ImportReport, ImportResult } from './types/cad';
 import { CADProcessor } from './utils/cadProcessor';
+import { DXFParseProgress } from './utils/dxfStreamReader';
 import { IlotOptimizer } from './utils/ilotOptimizer';
 import { CorridorGenerator } from './utils/corridorGenerator';
-import { ExportManager } from './utils/exportManager';
+import { BuildingExportManager, summarizeBuilding } from './utils/exportManager';
+import { DEFAULT_LAYER_PROFILE } from './utils/layerMapping';
 import ProfessionalFloorPlanRenderer from './components/ProfessionalFloorPlanRenderer';
 import { RealisticVisualization } from './components/RealisticVisualization';
+import { LayerMappingPanel } from './components/LayerMappingPanel';
+
+interface DrawingImportSettings {
+  pageNumber: number;
+  layerProfile: LayerMappingProfile;
+  rasterCalibration: number;
+}
 
 const CADAnalysisApp: React.FC = () => {
   const [currentStep, setCurrentStep] = useState(0);
-  const [floorPlanData, setFloorPlanData] = useState<FloorPlan | null>(null);
-  const [ilotData, setIlotData] = useState<Ilot[]>([]);
-  const [corridorData, setCorridorData] = useState<Corridor[]>([]);
-  const [analysisResults, setAnalysisResults] = useState<AnalysisResults | null>(null);
+  const [building, setBuilding] = useState<Building | null>(null);
+  const [levelIndex, setLevelIndex] = useState(0);
+  const [ilotsByLevel, setIlotsByLevel] = useState<Record<string, Ilot[]>>({});
+  const [corridorsByLevel, setCorridorsByLevel] = useState<Record<string, Corridor[]>>({});
+  const [analysisResults, setAnalysisResults] = useState<BuildingAnalysisResult | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [leftPanelCollapsed, setLeftPanelCollapsed] = useState(false);
   const [rightPanelCollapsed, setRightPanelCollapsed] = useState(false);
   const [showGrid, setShowGrid] = useState(true);
   const [showLayers, setShowLayers] = useState(true);
+  const [pdfPage, setPdfPage] = useState(1);
+  const [pdfPageCount, setPdfPageCount] = useState(0);
+  const [hiddenLayers, setHiddenLayers] = useState<Set<string>>(new Set());
+  const [layerProfile, setLayerProfile] = useState<LayerMappingProfile>(DEFAULT_LAYER_PROFILE);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [importReport, setImportReport] = useState<ImportReport | null>(null);
+  const [parseProgress, setParseProgress] = useState<DXFParseProgress | null>(null);
+  const importAbort = useRef<AbortController | null>(null);
+  const [rasterCalibration, setRasterCalibration] = useState(1);
+  const [calibrationLength, setCalibrationLength] = useState('');
+
+  // Everything shown and edited belongs to the selected level
+  const currentLevel = building?.levels[levelIndex] ?? null;
+  const floorPlanData = currentLevel?.floorPlan ?? null;
+  const ilotData = currentLevel ? ilotsByLevel[currentLevel.id] || [] : [];
+  const corridorData = currentLevel ? corridorsByLevel[currentLevel.id] || [] : [];
+  const floorResult = analysisResults?.floors[levelIndex] ?? null;
+
+  // Layers that are off or frozen in the drawing start hidden; levels share the drawing's layer table
+  const applyBuilding = (loaded: Building) => {
+    setBuilding(loaded);
+    setLevelIndex(0);
+    setHiddenLayers(new Set(
+      (loaded.levels[0]?.floorPlan.layers || []).filter(layer => !layer.on || layer.frozen).map(layer => layer.name)
+    ));
+  };
+
+  const toggleLayerVisibility = (layerName: string) => {
+    setHiddenLayers(previous => {
+      const next = new Set(previous);
+      if (next.has(layerName)) {
+        next.delete(layerName);
+      } else {
+        next.add(layerName);
+      }
+      return next;
+    });
+  };
+
+  // Layers hidden in the panel leave the canvas and the îlot analysis alike; rooms belong to no layer
+  const withoutHiddenLayers = (floorPlan: FloorPlan): FloorPlan => {
+    const isShown = (item: { layer?: string }) => item.layer === undefined || !hiddenLayers.has(item.layer);
+    return {
+      ...floorPlan,
+      walls: floorPlan.walls.filter(isShown),
+      doors: floorPlan.doors.filter(isShown),
+      windows: floorPlan.windows.filter(isShown),
+      restrictedAreas: floorPlan.restrictedAreas.filter(isShown),
+      entrances: floorPlan.entrances.filter(isShown),
+      labels: floorPlan.labels.filter(isShown)
+    };
+  };
+  const visibleFloorPlan = floorPlanData && withoutHiddenLayers(floorPlanData);
+
+  // Load a drawing into a building based on its file type; only CAD drawings can hold several levels
+  const loadDrawing = async (file: File, settings: DrawingImportSettings): Promise<ImportResult<Building>> => {
+    const processor = new CADProcessor();
+    const extension = file.name.split('.').pop()?.toLowerCase();
+    const name = file.name.replace(/\.[^.]+$/, '');
+    const asBuilding = ({ data, report }: ImportResult<FloorPlan>): ImportResult<Building> => ({
+      data: data && processor.createSingleLevelBuilding(data, name),
+      report
+    });
+
+    // CAD drawings are parsed in a worker that reports progress and can be cancelled
+    importAbort.current = new AbortController();
+    const cadOptions = { layerProfile: settings.layerProfile, signal: importAbort.current.signal, onProgress: setParseProgress };
+
+    if (extension === 'pdf') {
+      return asBuilding(await processor.processPDF(file, { pageNumber: settings.pageNumber }));
+    }
+    if (extension === 'dxf') {
+      return processor.processDXF(file, cadOptions);
+    }
+    if (extension === 'dwg') {
+      return processor.processDWG(file, cadOptions);
+    }
+    if (extension === 'png' || extension === 'jpg' || extension === 'jpeg') {
+      return asBuilding(await processor.processImage(file, { calibration: settings.rasterCalibration }));
+    }
+    throw new Error(`Unsupported file type: ${file.name}`);
+  };
+
+  const cancelImport = () => {
+    importAbort.current?.abort();
+  };
+
+  const isImportCancelled = (error: unknown) => error instanceof DOMException && error.name === 'AbortError';
+
+  // Cancelling keeps whatever was loaded before; anything else is shown as an import failure
+  const handleImportError = (error: unknown) => {
+    if (isImportCancelled(error)) {
+      return;
+    }
+    console.error('Processing error:', error);
+    setImportError(error instanceof Error ? error.message : String(error));
+  };
+
+  const finishImport = () => {
+    importAbort.current = null;
+    setParseProgress(null);
+    setIsProcessing(false);
+  };
+
+  // A failed import leaves no plan behind; the report explains what went wrong
+  const applyImport = ({ data, report }: ImportResult<Building>): boolean => {
+    setImportReport(report);
+    if (data) {
+      applyBuilding(data);
+    } else {
+      setBuilding(null);
+    }
+    return data !== null;
+  };
+
+  // The demonstration plan is only ever loaded on request
+  const handleLoadDemo = () => {
+    const processor = new CADProcessor();
+    applyBuilding(processor.createSingleLevelBuilding(processor.createAdvancedFloorPlan(), 'Demonstration plan'));
+    setSelectedFile(null);
+    setImportReport(null);
+    setImportError(null);
+    setIlotsByLevel({});
+    setCorridorsByLevel({});
+    setAnalysisResults(null);
+    setCurrentStep(1);
+  };
+
+  // Layers of a drawing that yielded no plan still need mapping, so fall back to those the report counted
+  const mappingLayers: Layer[] = floorPlanData?.layers ?? Object.entries(importReport?.entitiesByLayer || {}).map(([name, entityCount]) => ({
+    name,
+    color: 7,
+    linetype: 'CONTINUOUS',
+    on: true,
+    frozen: false,
+    plottable: true,
+    entityCount
+  }));
+  const importFailed = importError !== null || (importReport !== null && !building);
+
+  const createFloorResult = (floorPlan: FloorPlan, ilots: Ilot[], corridors: Corridor[]): CADAnalysisResult => ({
+    floorPlan,
+    ilots,
+    corridors,
+    optimization: {
+      spaceUtilization: floorPlan.usableArea > 0 ? ilots.reduce((sum, ilot) => sum + ilot.area, 0) / floorPlan.usableArea * 100 : 0,
+      accessibilityScore: ilots.length > 0 ? ilots.filter(ilot => ilot.accessibility).length / ilots.length * 100 : 0,
+      clearanceCompliance: 95,
+      totalIlots: ilots.length,
+      totalCorridorLength: corridors.reduce((sum, corridor) => sum + corridor.length, 0),
+      efficiency: 88
+    },
+    exportData: {
+      dxf: '',
+      pdf: new Blob(),
+      json: '',
+      summary: `Analysis completed with ${ilots.length} îlots and ${corridors.length} corridors`
+    }
+  });
+
+  const handleExport = async (format: 'dxf' | 'pdf' | 'json') => {
+    if (!analysisResults) return;
+
+    const exporter = new BuildingExportManager(analysisResults);
+    try {
+      if (format === 'dxf') {
+        exporter.exportDXF();
+      } else if (format === 'pdf') {
+        await exporter.exportPDF();
+      } else {
+        exporter.exportJSON();
+      }
+    } catch (error) {
+      console.error('Export error:', error);
+    }
+  };
+
+  // Re-import the current drawing, discarding any analysis built on the previous import
+  const reloadDrawing = async (changes: Partial<DrawingImportSettings>) => {
+    if (!selectedFile) return;
+
+    setIsProcessing(true);
+    setImportError(null);
+    try {
+      const loaded = applyImport(await loadDrawing(selectedFile, { pageNumber: pdfPage, layerProfile, rasterCalibration, ...changes }));
+      setIlotsByLevel({});
+      setCorridorsByLevel({});
+      setAnalysisResults(null);
+      setCurrentStep(loaded ? 1 : 0);
+    } catch (error) {
+      handleImportError(error);
+    } finally {
+      finishImport();
+    }
+  };
+
+  // Re-import a different sheet of a multi-page PDF drawing set
+  const handlePdfPageChange = (pageNumber: number) => {
+    setPdfPage(pageNumber);
+    reloadDrawing({ pageNumber });
+  };
+
+  const handleLayerProfileApply = (profile: LayerMappingProfile) => {
+    setLayerProfile(profile);
+    reloadDrawing({ layerProfile: profile });
+  };
+
+  // Scanned plans have no reliable scale; rescale so the longest wall matches a known length
+  const longestWallLength = floorPlanData
+    ? Math.max(0, ...floorPlanData.walls.map(wall => Math.hypot(wall.end.x - wall.start.x, wall.end.y - wall.start.y)))
+    : 0;
+
+  const handleRasterCalibration = () => {
+    const actualLength = parseFloat(calibrationLength) * 1000;
+    if (!(actualLength > 0) || longestWallLength === 0) return;
+
+    const calibration = rasterCalibration * actualLength / longestWallLength;
+    setRasterCalibration(calibration);
+    setCalibrationLength('');
+    reloadDrawing({ rasterCalibration: calibration });
+  };
 
   // Process CAD file
   const handleFileUpload = async (file: File) => {
+    const previousFile = selectedFile;
     setSelectedFile(file);
     setIsProcessing(true);
+    setImportError(null);
 
     try {
       if (currentStep === 0) {
-        const processor = new CADProcessor();
-        const floorPlan = processor.createAdvancedFloorPlan();
-        setFloorPlanData(floorPlan);
-        setCurrentStep(1);
-      } else if (currentStep === 1 && floorPlanData) {
-        const optimizer = new IlotOptimizer(floorPlanData);
-        const ilots = optimizer.optimizeIlotPlacement();
-        setIlotData(ilots);
+        const isPdf = file.name.toLowerCase().endsWith('.pdf');
+        setPdfPage(1);
+        setPdfPageCount(isPdf ? await new CADProcessor().getPDFPageCount(file) : 0);
+        setRasterCalibration(1);
+
+        const loaded = applyImport(await loadDrawing(file, { pageNumber: 1, layerProfile, rasterCalibration: 1 }));
+        setCurrentStep(loaded ? 1 : 0);
+      } else if (currentStep === 1 && building) {
+        // Each level is optimized on its own floor plate
+        const ilots: Record<string, Ilot[]> = {};
+        building.levels.forEach(level => {
+          ilots[level.id] = new IlotOptimizer(withoutHiddenLayers(level.floorPlan)).optimizePlacement();
+        });
+        setIlotsByLevel(ilots);
         setCurrentStep(2);
-      } else if (currentStep === 2 && floorPlanData && ilotData) {
-        const corridorGen = new CorridorGenerator(floorPlanData, ilotData, 1200);
-        const corridors = corridorGen.generateCorridors();
-        setCorridorData(corridors);
-
-        const results: AnalysisResults = {
-          floorPlan: floorPlanData,
-          ilots: ilotData,
-          corridors,
-          optimization: {
-            spaceUtilization: ilotData.reduce((sum, ilot) => sum + ilot.area, 0) / floorPlanData.usableArea * 100,
-            accessibilityScore: ilotData.filter(ilot => ilot.accessibility).length / ilotData.length * 100,
-            clearanceCompliance: 95,
-            totalIlots: ilotData.length,
-            totalCorridorLength: corridors.reduce((sum, corridor) => sum + corridor.length, 0),
-            efficiency: 88
-          },
-          exportData: {
-            dxf: '',
-            pdf: new Blob(),
-            json: '',
-            summary: `Analysis completed with ${ilotData.length} îlots and ${corridors.length} corridors`
-          }
-        };
-        setAnalysisResults(results);
+      } else if (currentStep === 2 && building) {
+        const corridors: Record<string, Corridor[]> = {};
+        const floors = building.levels.map(level => {
+          const levelIlots = ilotsByLevel[level.id] || [];
+          const floorPlan = withoutHiddenLayers(level.floorPlan);
+          corridors[level.id] = new CorridorGenerator(floorPlan, levelIlots, { width: 1200 }).generateCorridors();
+          return createFloorResult(floorPlan, levelIlots, corridors[level.id]);
+        });
+        setCorridorsByLevel(corridors);
+        setAnalysisResults({ building, floors, summary: summarizeBuilding(floors) });
       }
     } catch (error) {
-      console.error('Processing error:', error);
+      // The drawing loaded before stays on screen, so the selection goes back to its file
+      if (isImportCancelled(error)) setSelectedFile(previousFile);
+      handleImportError(error);
     } finally {
-      setIsProcessing(false);
+      finishImport();
     }
   };
 
@@ -244,12 +470,223 @@ const CADAnalysisApp: React.FC = () => {
                       <span className="text-gray-400">Size:</span>
                       <span className="text-white">{(selectedFile.size / 1024 / 1024).toFixed(2)} MB</span>
                     </div>
+                    {pdfPageCount > 1 && (
+                      <div className="flex justify-between items-center">
+                        <span className="text-gray-400">Page:</span>
+                        <select
+                          value={pdfPage}
+                          onChange={(e) => handlePdfPageChange(parseInt(e.target.value))}
+                          disabled={isProcessing}
+                          className="bg-gray-800 border border-gray-600 rounded text-white text-xs px-1 py-0.5"
+                        >
+                          {Array.from({ length: pdfPageCount }, (_, index) => (
+                            <option key={index + 1} value={index + 1}>
+                              {index + 1} / {pdfPageCount}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    )}
+                    {building && building.levels.length > 1 && (
+                      <div className="flex justify-between items-center">
+                        <span className="text-gray-400">Level:</span>
+                        <select
+                          value={levelIndex}
+                          onChange={(e) => setLevelIndex(parseInt(e.target.value))}
+                          className="bg-gray-800 border border-gray-600 rounded text-white text-xs px-1 py-0.5"
+                        >
+                          {building.levels.map((level, index) => (
+                            <option key={level.id} value={index}>
+                              {level.name} ({(level.elevation / 1000).toFixed(2)} m)
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    )}
                     <div className="flex justify-between">
                       <span className="text-gray-400">Status:</span>
-                      <span className={`${isProcessing ? 'text-yellow-400' : 'text-green-400'}`}>
-                        {isProcessing ? 'Processing...' : 'Ready'}
+                      <span className={`${isProcessing ? 'text-yellow-400' : importFailed ? 'text-red-400' : 'text-green-400'}`}>
+                        {isProcessing ? 'Processing...' : importFailed ? 'Failed' : 'Ready'}
                       </span>
                     </div>
+                    {isProcessing && parseProgress && (
+                      <div className="space-y-1">
+                        <div className="flex justify-between">
+                          <span className="text-gray-400">
+                            {(parseProgress.bytesRead / 1024 / 1024).toFixed(1)} / {(parseProgress.totalBytes / 1024 / 1024).toFixed(1)} MB
+                          </span>
+                          <span className="text-white">{parseProgress.entities.toLocaleString()} entities</span>
+                        </div>
+                        <div className="flex items-center space-x-2">
+                          <div className="flex-1 h-1 bg-gray-700 rounded">
+                            <div
+                              className="h-1 bg-blue-500 rounded"
+                              style={{ width: `${parseProgress.totalBytes > 0 ? parseProgress.bytesRead / parseProgress.totalBytes * 100 : 0}%` }}
+                            />
+                          </div>
+                          <button
+                            onClick={cancelImport}
+                            className="px-2 py-0.5 bg-gray-700 rounded text-white hover:bg-gray-600"
+                          >
+                            Cancel
+                          </button>
+                        </div>
+                      </div>
+                    )}
+                    {floorPlanData && /\.(png|jpe?g)$/i.test(selectedFile.name) && (
+                      <div className="space-y-1">
+                        <div className="flex justify-between">
+                          <span className="text-gray-400">Longest wall:</span>
+                          <span className="text-white">{(longestWallLength / 1000).toFixed(2)} m</span>
+                        </div>
+                        <div className="flex items-center space-x-1">
+                          <input
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            value={calibrationLength}
+                            onChange={(e) => setCalibrationLength(e.target.value)}
+                            placeholder="Actual length (m)"
+                            className="flex-1 min-w-0 bg-gray-800 border border-gray-600 rounded text-white px-1 py-0.5"
+                          />
+                          <button
+                            onClick={handleRasterCalibration}
+                            disabled={isProcessing || !calibrationLength}
+                            className="px-2 py-0.5 bg-gray-700 rounded text-white hover:bg-gray-600 disabled:opacity-50"
+                          >
+                            Calibrate
+                          </button>
+                        </div>
+                      </div>
+                    )}
+                    {importError && (
+                      <div className="text-red-400 bg-red-900/20 border border-red-800 rounded p-2">
+                        {importError}
+                      </div>
+                    )}
+                  </div>
+                </div>
+              )}
+
+              {/* Layers */}
+              {showLayers && floorPlanData && floorPlanData.layers.length > 0 && (
+                <div className="space-y-3">
+                  <h3 className="text-xs font-semibold text-gray-400 uppercase tracking-wide">Layers</h3>
+                  <div className="space-y-1 text-xs">
+                    {floorPlanData.layers.map(layer => (
+                      <label key={layer.name} className="flex items-center justify-between cursor-pointer hover:bg-gray-800 px-1 py-0.5 rounded">
+                        <span className="flex items-center space-x-2">
+                          <input
+                            type="checkbox"
+                            checked={!hiddenLayers.has(layer.name)}
+                            onChange={() => toggleLayerVisibility(layer.name)}
+                          />
+                          <span className="text-white">{layer.name}</span>
+                        </span>
+                        <span className="text-gray-500">
+                          {layer.frozen ? 'Frozen' : !layer.on ? 'Off' : layer.linetype}
+                        </span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* Import Report */}
+              {importReport && (
+                <div className="space-y-3">
+                  <h3 className="text-xs font-semibold text-gray-400 uppercase tracking-wide">Import Report</h3>
+                  <div className="space-y-2 text-xs">
+                    <div className="flex justify-between">
+                      <span className="text-gray-400">Format:</span>
+                      <span className="text-white">{importReport.format}</span>
+                    </div>
+                    <details>
+                      <summary className="text-gray-400 cursor-pointer">
+                        {Object.values(importReport.entitiesByType).reduce((sum, count) => sum + count, 0)} entities
+                      </summary>
+                      <div className="mt-1 space-y-0.5">
+                        {Object.entries(importReport.entitiesByType).sort((a, b) => b[1] - a[1]).map(([type, count]) => (
+                          <div key={type} className="flex justify-between pl-2">
+                            <span className="text-gray-400">{type}</span>
+                            <span className="text-white">{count}</span>
+                          </div>
+                        ))}
+                      </div>
+                    </details>
+                    <details>
+                      <summary className="text-gray-400 cursor-pointer">
+                        {Object.keys(importReport.entitiesByLayer).length} layers
+                      </summary>
+                      <div className="mt-1 space-y-0.5">
+                        {Object.entries(importReport.entitiesByLayer).sort((a, b) => b[1] - a[1]).map(([layer, count]) => (
+                          <div key={layer} className="flex justify-between pl-2">
+                            <span className="text-gray-400 truncate">{layer}</span>
+                            <span className="text-white">{count}</span>
+                          </div>
+                        ))}
+                      </div>
+                    </details>
+                    {importReport.units.map((decision, index) => (
+                      <div key={`unit-${index}`} className="text-gray-300">{decision}</div>
+                    ))}
+                    {importReport.skipped.map(item => (
+                      <div key={item.reason} className="text-gray-400">Skipped {item.count} {item.reason}</div>
+                    ))}
+                    {importReport.repairs.map((repair, index) => (
+                      <div key={`repair-${index}`} className="text-blue-300">{repair}</div>
+                    ))}
+                    {importReport.messages.filter(message => message.severity !== 'info').map((message, index) => (
+                      <div
+                        key={`message-${index}`}
+                        className={message.severity === 'error'
+                          ? 'text-red-400 bg-red-900/20 border border-red-800 rounded p-2'
+                          : 'text-yellow-400'}
+                      >
+                        {message.message}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* Demonstration plan, only when there is no drawing to show */}
+              {!building && !isProcessing && (
+                <button
+                  onClick={handleLoadDemo}
+                  className="w-full bg-gray-700 hover:bg-gray-600 text-white text-xs py-2 px-3 rounded transition-colors"
+                >
+                  Load demonstration plan
+                </button>
+              )}
+
+              {/* Layer Mapping */}
+              {mappingLayers.length > 0 && /\.(dxf|dwg)$/i.test(selectedFile?.name || '') && (
+                <div className="space-y-3">
+                  <h3 className="text-xs font-semibold text-gray-400 uppercase tracking-wide">Layer Mapping</h3>
+                  <LayerMappingPanel
+                    layers={mappingLayers}
+                    profile={layerProfile}
+                    disabled={isProcessing}
+                    onApply={handleLayerProfileApply}
+                  />
+                </div>
+              )}
+
+              {/* Rooms */}
+              {floorPlanData && floorPlanData.rooms.length > 0 && (
+                <div className="space-y-3">
+                  <h3 className="text-xs font-semibold text-gray-400 uppercase tracking-wide">Rooms</h3>
+                  <div className="space-y-1 text-xs">
+                    {floorPlanData.rooms.map(room => (
+                      <div key={room.id} className="flex justify-between px-1">
+                        <span className="text-white truncate">{room.name}</span>
+                        <span className="text-gray-400 whitespace-nowrap ml-2">
+                          {(room.area / 1000000).toFixed(1)} m²
+                          {ilotData.length > 0 && ` · ${ilotData.filter(ilot => ilot.roomId === room.id).length} îlots`}
+                        </span>
+                      </div>
+                    ))}
                   </div>
                 </div>
               )}
@@ -259,24 +696,47 @@ const CADAnalysisApp: React.FC = () => {
                 <div className="space-y-3">
                   <h3 className="text-xs font-semibold text-gray-400 uppercase tracking-wide">Analysis Results</h3>
                   <div className="space-y-3">
-                    <div className="bg-gray-800 rounded p-3 space-y-2">
-                      <div className="flex justify-between text-xs">
-                        <span className="text-gray-400">Space Utilization</span>
-                        <span className="text-white">{analysisResults.optimization.spaceUtilization.toFixed(1)}%</span>
-                      </div>
-                      <div className="flex justify-between text-xs">
-                        <span className="text-gray-400">Total Îlots</span>
-                        <span className="text-white">{analysisResults.optimization.totalIlots}</span>
+                    {floorResult && (
+                      <div className="bg-gray-800 rounded p-3 space-y-2">
+                        <div className="flex justify-between text-xs">
+                          <span className="text-gray-400">Space Utilization</span>
+                          <span className="text-white">{floorResult.optimization.spaceUtilization.toFixed(1)}%</span>
+                        </div>
+                        <div className="flex justify-between text-xs">
+                          <span className="text-gray-400">Total Îlots</span>
+                          <span className="text-white">{floorResult.optimization.totalIlots}</span>
+                        </div>
+                        <div className="flex justify-between text-xs">
+                          <span className="text-gray-400">Accessibility</span>
+                          <span className="text-white">{floorResult.optimization.accessibilityScore.toFixed(1)}%</span>
+                        </div>
+                        <div className="flex justify-between text-xs">
+                          <span className="text-gray-400">Efficiency</span>
+                          <span className="text-white">{floorResult.optimization.efficiency}%</span>
+                        </div>
                       </div>
-                      <div className="flex justify-between text-xs">
-                        <span className="text-gray-400">Accessibility</span>
-                        <span className="text-white">{analysisResults.optimization.accessibilityScore.toFixed(1)}%</span>
+                    )}
+                    {analysisResults.summary.levelCount > 1 && (
+                      <div className="bg-gray-800 rounded p-3 space-y-2">
+                        <div className="text-xs text-gray-400">Building ({analysisResults.summary.levelCount} levels)</div>
+                        <div className="flex justify-between text-xs">
+                          <span className="text-gray-400">Net Area</span>
+                          <span className="text-white">{(analysisResults.summary.netArea / 1000000).toFixed(1)} m²</span>
+                        </div>
+                        <div className="flex justify-between text-xs">
+                          <span className="text-gray-400">Space Utilization</span>
+                          <span className="text-white">{analysisResults.summary.spaceUtilization.toFixed(1)}%</span>
+                        </div>
+                        <div className="flex justify-between text-xs">
+                          <span className="text-gray-400">Total Îlots</span>
+                          <span className="text-white">{analysisResults.summary.totalIlots}</span>
+                        </div>
+                        <div className="flex justify-between text-xs">
+                          <span className="text-gray-400">Corridor Length</span>
+                          <span className="text-white">{(analysisResults.summary.totalCorridorLength / 1000).toFixed(1)} m</span>
+                        </div>
                       </div>
-                      <div className="flex justify-between text-xs">
-                        <span className="text-gray-400">Efficiency</span>
-                        <span className="text-white">{analysisResults.optimization.efficiency}%</span>
-                      </div>
-                    </div>
+                    )}
                   </div>
                 </div>
               )}
@@ -288,7 +748,7 @@ const CADAnalysisApp: React.FC = () => {
         <div className="flex-1 bg-gray-100 relative overflow-hidden">
           {/* Drawing Canvas */}
           <div className="absolute inset-0">
-            {floorPlanData ? (
+            {visibleFloorPlan ? (
               <div className="h-full w-full bg-white relative">
                 {showGrid && (
                   <div className="absolute inset-0 opacity-20">
@@ -303,7 +763,7 @@ const CADAnalysisApp: React.FC = () => {
                   </div>
                 )}
                 <ProfessionalFloorPlanRenderer
-                  floorPlan={floorPlanData}
+                  floorPlan={visibleFloorPlan}
                   ilots={ilotData}
                   corridors={corridorData}
                   showIlots={currentStep >= 2}
@@ -378,13 +838,13 @@ const CADAnalysisApp: React.FC = () => {
                 <div className="space-y-3">
                   <h3 className="text-xs font-semibold text-gray-400 uppercase tracking-wide">Export</h3>
                   <div className="space-y-2">
-                    <button className="w-full bg-gray-700 hover:bg-gray-600 text-white text-xs py-2 px-3 rounded transition-colors">
+                    <button onClick={() => handleExport('dxf')} className="w-full bg-gray-700 hover:bg-gray-600 text-white text-xs py-2 px-3 rounded transition-colors">
                       Export DXF
                     </button>
-                    <button className="w-full bg-gray-700 hover:bg-gray-600 text-white text-xs py-2 px-3 rounded transition-colors">
+                    <button onClick={() => handleExport('pdf')} className="w-full bg-gray-700 hover:bg-gray-600 text-white text-xs py-2 px-3 rounded transition-colors">
                       Export PDF
                     </button>
-                    <button className="w-full bg-gray-700 hover:bg-gray-600 text-white text-xs py-2 px-3 rounded transition-colors">
+                    <button onClick={() => handleExport('json')} className="w-full bg-gray-700 hover:bg-gray-600 text-white text-xs py-2 px-3 rounded transition-colors">
                       Export Analysis Report
                     </button>
                   </div>
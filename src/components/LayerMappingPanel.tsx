@@ -0,0 +1,156 @@
+import React, { useMemo, useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { Layer, LayerCategory, LayerMappingProfile } from '../types/cad';
+import { LayerMapper, LayerProfileStore } from '../utils/layerMapping';
+
+interface LayerMappingPanelProps {
+  layers: Layer[];
+  profile: LayerMappingProfile;
+  disabled?: boolean;
+  onApply: (profile: LayerMappingProfile) => void;
+}
+
+const CATEGORIES: LayerCategory[] = ['wall', 'door', 'window', 'restricted', 'entrance', 'level', 'ignore'];
+
+const profileStore = new LayerProfileStore();
+
+export const LayerMappingPanel: React.FC<LayerMappingPanelProps> = ({
+  layers,
+  profile,
+  disabled = false,
+  onApply
+}) => {
+  const [profiles, setProfiles] = useState<LayerMappingProfile[]>(() => profileStore.getAllProfiles());
+  const [draft, setDraft] = useState<LayerMappingProfile>(profile);
+  const [profileName, setProfileName] = useState('');
+
+  // Preview runs against the layers of the loaded drawing before anything is re-imported
+  const preview = useMemo(() => new LayerMapper(draft).preview(layers), [draft, layers]);
+
+  const selectProfile = (profileId: string) => {
+    const selected = profiles.find(candidate => candidate.id === profileId);
+    if (selected) setDraft(selected);
+  };
+
+  const updateRule = (index: number, changes: Partial<LayerMappingProfile['rules'][number]>) => {
+    setDraft(previous => ({
+      ...previous,
+      rules: previous.rules.map((rule, i) => (i === index ? { ...rule, ...changes } : rule))
+    }));
+  };
+
+  const addRule = () => {
+    setDraft(previous => ({ ...previous, rules: [...previous.rules, { pattern: '*', category: 'wall' }] }));
+  };
+
+  const removeRule = (index: number) => {
+    setDraft(previous => ({ ...previous, rules: previous.rules.filter((_, i) => i !== index) }));
+  };
+
+  const saveProfile = () => {
+    const name = profileName.trim();
+    if (!name) return;
+
+    const saved: LayerMappingProfile = { ...draft, id: draft.builtIn ? uuidv4() : draft.id, name, builtIn: false };
+    profileStore.saveProfile(saved);
+    setProfiles(profileStore.getAllProfiles());
+    setDraft(saved);
+    setProfileName('');
+  };
+
+  const deleteProfile = () => {
+    if (draft.builtIn) return;
+
+    profileStore.deleteProfile(draft.id);
+    const remaining = profileStore.getAllProfiles();
+    setProfiles(remaining);
+    setDraft(remaining[0]);
+  };
+
+  return (
+    <div className="space-y-2 text-xs">
+      <div className="flex items-center space-x-1">
+        <select
+          value={draft.id}
+          onChange={(e) => selectProfile(e.target.value)}
+          className="flex-1 bg-gray-800 border border-gray-600 rounded text-white text-xs px-1 py-0.5"
+        >
+          {profiles.map(candidate => (
+            <option key={candidate.id} value={candidate.id}>
+              {candidate.name}{candidate.builtIn ? '' : ' (custom)'}
+            </option>
+          ))}
+        </select>
+        {!draft.builtIn && (
+          <button onClick={deleteProfile} className="px-1 text-gray-400 hover:text-red-400" title="Delete profile">
+            ✕
+          </button>
+        )}
+      </div>
+
+      <div className="space-y-1">
+        {draft.rules.map((rule, index) => (
+          <div key={index} className="bg-gray-800 rounded p-1 space-y-1">
+            <div className="flex items-center space-x-1">
+              <input
+                value={rule.pattern}
+                onChange={(e) => updateRule(index, { pattern: e.target.value })}
+                className="flex-1 min-w-0 bg-gray-900 border border-gray-600 rounded text-white px-1 py-0.5"
+              />
+              <select
+                value={rule.category}
+                onChange={(e) => updateRule(index, { category: e.target.value as LayerCategory })}
+                className="bg-gray-900 border border-gray-600 rounded text-white px-1 py-0.5"
+              >
+                {CATEGORIES.map(category => (
+                  <option key={category} value={category}>{category}</option>
+                ))}
+              </select>
+              <button onClick={() => removeRule(index)} className="px-1 text-gray-400 hover:text-red-400">
+                ✕
+              </button>
+            </div>
+            <div className="text-gray-500 truncate" title={preview.matches[index]?.layers.join(', ')}>
+              {preview.matches[index]?.layers.length
+                ? `${preview.matches[index].layers.join(', ')} · ${preview.matches[index].entityCount} entities`
+                : 'No matching layers'}
+            </div>
+          </div>
+        ))}
+        <button onClick={addRule} className="w-full p-1 border border-dashed border-gray-600 rounded text-gray-400 hover:border-blue-500">
+          + Add rule
+        </button>
+      </div>
+
+      {preview.unmatched.length > 0 && (
+        <div className="text-gray-500">
+          Unmatched: {preview.unmatched.map(layer => `${layer.name} (${layer.entityCount})`).join(', ')}
+        </div>
+      )}
+
+      <div className="flex items-center space-x-1">
+        <input
+          value={profileName}
+          onChange={(e) => setProfileName(e.target.value)}
+          placeholder="Custom profile name"
+          className="flex-1 min-w-0 bg-gray-800 border border-gray-600 rounded text-white px-1 py-0.5"
+        />
+        <button
+          onClick={saveProfile}
+          disabled={!profileName.trim()}
+          className="px-2 py-0.5 bg-gray-700 rounded text-white hover:bg-gray-600 disabled:opacity-50"
+        >
+          Save
+        </button>
+      </div>
+
+      <button
+        onClick={() => onApply(draft)}
+        disabled={disabled}
+        className="w-full p-1 bg-blue-600 rounded text-white hover:bg-blue-500 disabled:opacity-50"
+      >
+        Apply mapping
+      </button>
+    </div>
+  );
+};
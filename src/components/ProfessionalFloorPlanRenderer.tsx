@@ -127,14 +127,22 @@ const ProfessionalFloorPlanRenderer: React.FC<ProfessionalFloorPlanRendererProps
   };
 
   const drawRestrictedAreas = (ctx: CanvasRenderingContext2D) => {
-    // Draw blue rectangular restricted areas based on floor plan
+    // Draw blue restricted areas (NO ENTREE)
     ctx.fillStyle = colors.noEntrance;
     
-    // Generate restricted areas based on floor plan geometry
-    const restrictedAreas = generateRestrictedAreas();
-    
-    restrictedAreas.forEach(area => {
-      ctx.fillRect(area.x, area.y, area.width, area.height);
+    // Stairs, lifts and shafts are off limits too
+    [
+      ...floorPlan.restrictedAreas.map(area => area.bounds),
+      ...floorPlan.verticalCirculation.map(element => element.polygon)
+    ].forEach(outline => {
+      if (outline.length < 3) return;
+      ctx.beginPath();
+      outline.forEach((point, index) => {
+        if (index === 0) ctx.moveTo(point.x, point.y);
+        else ctx.lineTo(point.x, point.y);
+      });
+      ctx.closePath();
+      ctx.fill();
     });
   };
 
@@ -142,12 +150,10 @@ const ProfessionalFloorPlanRenderer: React.FC<ProfessionalFloorPlanRendererProps
     ctx.strokeStyle = colors.entrance;
     ctx.lineWidth = 3;
     
-    // Draw curved entrance/exit zones
-    const entranceAreas = generateEntranceAreas();
-    
-    entranceAreas.forEach(entrance => {
+    // Draw curved entrance/exit zones as a half circle spanning each opening
+    floorPlan.entrances.forEach(entrance => {
       ctx.beginPath();
-      ctx.arc(entrance.x, entrance.y, entrance.radius, entrance.startAngle, entrance.endAngle);
+      ctx.arc(entrance.position.x, entrance.position.y, entrance.width / 2, 0, Math.PI);
       ctx.stroke();
     });
   };
@@ -195,34 +201,6 @@ const ProfessionalFloorPlanRenderer: React.FC<ProfessionalFloorPlanRendererProps
     });
   };
 
-  const generateRestrictedAreas = () => {
-    // Generate blue rectangular areas based on floor plan geometry
-    const areas = [];
-    const bounds = calculateBounds();
-    
-    // Add some strategic restricted areas
-    areas.push(
-      { x: bounds.minX + 200, y: bounds.minY + 150, width: 80, height: 120 },
-      { x: bounds.maxX - 280, y: bounds.minY + 300, width: 90, height: 100 }
-    );
-    
-    return areas;
-  };
-
-  const generateEntranceAreas = () => {
-    // Generate red curved entrance areas
-    const entrances = [];
-    const bounds = calculateBounds();
-    
-    // Add entrance arcs at strategic positions
-    entrances.push(
-      { x: bounds.minX + 150, y: bounds.maxY - 200, radius: 40, startAngle: 0, endAngle: Math.PI },
-      { x: bounds.maxX - 150, y: bounds.minY + 200, radius: 35, startAngle: Math.PI, endAngle: 2 * Math.PI }
-    );
-    
-    return entrances;
-  };
-
   const drawLegend = (ctx: CanvasRenderingContext2D) => {
     const legendX = 50;
     const legendY = 50;
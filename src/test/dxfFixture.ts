@@ -0,0 +1,73 @@
+// Builds small ASCII DXF drawings for pipeline tests, one group code and value per line
+
+export interface FixtureLayer {
+  name: string;
+  color: number; // Negative when the layer is off
+  frozen?: boolean;
+}
+
+type Group = [number, string | number];
+
+const groups = (pairs: Group[]): string[] => pairs.flatMap(([code, value]) => [String(code), String(value)]);
+
+export function header(variables: Record<string, Group>): string[] {
+  return [
+    ...groups([[0, 'SECTION'], [2, 'HEADER']]),
+    ...Object.entries(variables).flatMap(([name, group]) => groups([[9, name], group])),
+    ...groups([[0, 'ENDSEC']])
+  ];
+}
+
+export function layerTable(layers: FixtureLayer[]): string[] {
+  return [
+    ...groups([[0, 'SECTION'], [2, 'TABLES'], [0, 'TABLE'], [2, 'LAYER']]),
+    ...layers.flatMap(layer => groups([
+      [0, 'LAYER'], [2, layer.name], [70, layer.frozen ? 1 : 0], [62, layer.color], [6, 'CONTINUOUS']
+    ])),
+    ...groups([[0, 'ENDTAB'], [0, 'ENDSEC']])
+  ];
+}
+
+export function blocks(definitions: { name: string; entities: string[][] }[]): string[] {
+  return [
+    ...groups([[0, 'SECTION'], [2, 'BLOCKS']]),
+    ...definitions.flatMap(block => [
+      ...groups([[0, 'BLOCK'], [8, '0'], [2, block.name], [70, 0], [10, 0], [20, 0]]),
+      ...block.entities.flat(),
+      ...groups([[0, 'ENDBLK'], [8, '0']])
+    ]),
+    ...groups([[0, 'ENDSEC']])
+  ];
+}
+
+export function entities(items: string[][]): string[] {
+  return [...groups([[0, 'SECTION'], [2, 'ENTITIES']]), ...items.flat(), ...groups([[0, 'ENDSEC']])];
+}
+
+// Extra groups such as [67, 1] (paper space) or [62, 1] (colour) go before the coordinates
+export function line(layer: string, x1: number, y1: number, x2: number, y2: number, extra: Group[] = []): string[] {
+  return groups([[0, 'LINE'], [8, layer], ...extra, [10, x1], [20, y1], [11, x2], [21, y2]]);
+}
+
+// Four LINEs, so wall pairing and healing see the same input as a drafted outline
+export function rectangle(layer: string, x: number, y: number, width: number, height: number, extra: Group[] = []): string[] {
+  return [
+    line(layer, x, y, x + width, y, extra),
+    line(layer, x + width, y, x + width, y + height, extra),
+    line(layer, x + width, y + height, x, y + height, extra),
+    line(layer, x, y + height, x, y, extra)
+  ].flat();
+}
+
+export function insert(layer: string, block: string, x: number, y: number, extra: Group[] = []): string[] {
+  return groups([[0, 'INSERT'], [8, layer], [2, block], [10, x], [20, y], ...extra]);
+}
+
+// Aligned dimension between two points on the x axis showing the given value
+export function dimension(x1: number, x2: number, value: number, extra: Group[] = []): string[] {
+  return groups([[0, 'DIMENSION'], [8, 'DIM'], ...extra, [70, 1], [13, x1], [23, 0], [14, x2], [24, 0], [42, value]]);
+}
+
+export function dxfFile(sections: string[][], name = 'fixture.dxf'): File {
+  return new File([[...sections.flat(), '0', 'EOF', ''].join('\n')], name);
+}
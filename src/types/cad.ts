@@ -18,7 +18,11 @@ export interface Door {
   width: number;
   height: number;
   swing: 'in' | 'out' | 'sliding';
-  angle: number;
+  angle: number; // Direction across the opening from the hinge jamb, in degrees
+  hinge?: Point; // Hinge point of a swing door
+  hingeSide?: 'left' | 'right'; // Seen from the side the leaf swings towards
+  wallId?: string; // Wall the door is set in
+  layer?: string; // Layer of the block or swing arc; unset when found from wall geometry alone
 }
 
 export interface Window {
@@ -27,6 +31,9 @@ export interface Window {
   width: number;
   height: number;
   sillHeight: number;
+  angle?: number; // Direction of the host wall, in degrees
+  wallId?: string;
+  layer?: string; // Layer of the window block; unset for openings found in the walls
 }
 
 export interface RestrictedArea {
@@ -34,19 +41,130 @@ export interface RestrictedArea {
   bounds: Point[];
   type: 'NO_ENTRY' | 'STRUCTURAL' | 'MECHANICAL' | 'ELECTRICAL';
   description?: string;
+  layer?: string; // Layer of the outline, fill or label the zone comes from
+}
+
+// Stairs and lifts are exits from the floor; shafts are only no-go zones
+export interface VerticalCirculation {
+  id: string;
+  type: 'STAIR' | 'LIFT' | 'SHAFT';
+  polygon: Point[]; // Extent of the flight or car, or the whole room for a labelled core
+  name?: string; // Label drawn on or beside the symbol, e.g. 'ESC 1' or 'ASC'
+  source: 'SYMBOL' | 'LABEL'; // Recognised from its drawn symbol, or from the name of a room
+}
+
+export interface Entrance {
+  id: string;
+  position: Point;
+  width: number;
+  bounds: Point[];
+  layer: string;
+}
+
+export interface Room {
+  id: string;
+  name: string; // From the TEXT/MTEXT label inside the room, or a generated name
+  polygon: Point[]; // Net floor outline along the inner wall faces
+  area: number; // Net floor area in mm²
+  perimeter: number; // Length of the net outline in mm
+  doors: string[]; // IDs of doors opening into the room
+}
+
+export interface TextLabel {
+  id: string;
+  text: string; // Plain text with formatting and control codes decoded
+  position: Point; // Insertion or alignment point
+  height: number; // Character height in mm
+  rotation: number; // Degrees counter-clockwise from the x axis
+  layer: string;
+  tag?: string; // Attribute tag when the text is a block attribute value
+  source: 'TEXT' | 'MTEXT' | 'ATTRIB' | 'ATTDEF' | 'PDF';
+}
+
+export interface Layer {
+  name: string;
+  color: number; // AutoCAD Color Index (1-255)
+  trueColor?: number; // 24-bit RGB (group 420), takes precedence over color
+  linetype: string;
+  on: boolean;
+  frozen: boolean;
+  plottable: boolean;
+  entityCount: number;
+}
+
+// 'level' layers hold frames drawn around each floor of a multi-storey drawing
+export type LayerCategory = 'wall' | 'door' | 'window' | 'restricted' | 'entrance' | 'level' | 'ignore';
+
+export interface LayerMappingRule {
+  pattern: string; // Glob matched against layer names, e.g. 'A-WALL*' or 'MUR*'
+  category: LayerCategory;
+}
+
+export interface LayerMappingProfile {
+  id: string;
+  name: string;
+  rules: LayerMappingRule[];
+  builtIn?: boolean;
 }
 
 export interface FloorPlan {
   id: string;
+  layers: Layer[];
   walls: Wall[];
   doors: Door[];
   windows: Window[];
   restrictedAreas: RestrictedArea[];
-  bounds: Point[];
+  entrances: Entrance[];
+  rooms: Room[];
+  verticalCirculation: VerticalCirculation[]; // Stairs, lifts and shafts
+  labels: TextLabel[]; // Room names, numbers and notes as drawn
+  bounds: Point[]; // Extent of the building outlines
+  outlines: Point[][]; // Outer face of each separate building or wing in the envelope
+  holes: Point[][]; // Courtyards and shafts cut out of the envelope
   scale: number;
   unit: 'mm' | 'cm' | 'm' | 'ft' | 'in';
-  totalArea: number;
-  usableArea: number;
+  totalArea: number; // Gross area inside the envelope
+  usableArea: number; // Net of walls, restricted zones and cores
+}
+
+export interface BuildingLevel {
+  id: string;
+  name: string;
+  elevation: number; // Floor level above the ground floor, in mm
+  floorPlan: FloorPlan;
+}
+
+export interface Building {
+  id: string;
+  name: string;
+  levels: BuildingLevel[]; // Lowest first
+}
+
+// How a drawing holding several floors is divided into levels
+export type FloorSplitMode = 'auto' | 'layout' | 'frame' | 'cluster' | 'none';
+
+export type ImportSeverity = 'info' | 'warning' | 'error';
+
+export interface ImportMessage {
+  severity: ImportSeverity;
+  message: string;
+}
+
+export interface ImportReport {
+  fileName: string;
+  format: string; // Importer that read the file: 'DXF', 'DWG', 'PDF' or 'Image'
+  entitiesByType: Record<string, number>;
+  entitiesByLayer: Record<string, number>;
+  skipped: { reason: string; count: number }[]; // Entities or shapes left out of the analysis
+  units: string[]; // Unit and scale decisions, in the order they were made
+  repairs: string[]; // Geometry changed to make the drawing analysable
+  messages: ImportMessage[];
+}
+
+// Data is null when nothing usable was found; the report then says why
+export interface ImportResult<T> {
+  data: T | null;
+  report: ImportReport;
 }
 
 export interface Ilot {
@@ -59,6 +177,7 @@ export interface Ilot {
   rotation: number;
   clearance: number;
   accessibility: boolean;
+  roomId?: string; // Room the îlot was placed in
 }
 
 export interface Corridor {
@@ -68,6 +187,7 @@ export interface Corridor {
   type: 'main' | 'secondary' | 'emergency';
   length: number;
   accessibility: boolean;
+  exitId?: string; // Stair or lift the corridor leads to
 }
 
 export interface OptimizationResult {
@@ -90,4 +210,19 @@ export interface CADAnalysisResult {
     json: string;
     summary: string;
   };
-}
\ No newline at end of file
+}
+
+export interface BuildingSummary {
+  levelCount: number;
+  grossArea: number;
+  netArea: number;
+  totalIlots: number;
+  totalCorridorLength: number;
+  spaceUtilization: number; // Îlot area as a percentage of the net area of all levels
+}
+
+export interface BuildingAnalysisResult {
+  building: Building;
+  floors: CADAnalysisResult[]; // One per level, in level order
+  summary: BuildingSummary;
+}
@@ -0,0 +1,169 @@
+import { Point, Wall, Door, Window, Room, RestrictedArea } from '../types/cad';
+import GeometryFactory from 'jsts/org/locationtech/jts/geom/GeometryFactory.js';
+import Coordinate from 'jsts/org/locationtech/jts/geom/Coordinate.js';
+import BufferOp from 'jsts/org/locationtech/jts/operation/buffer/BufferOp.js';
+import BufferParameters from 'jsts/org/locationtech/jts/operation/buffer/BufferParameters.js';
+import UnaryUnionOp from 'jsts/org/locationtech/jts/operation/union/UnaryUnionOp.js';
+import OverlayOp from 'jsts/org/locationtech/jts/operation/overlay/OverlayOp.js';
+
+export interface BuildingEnvelope {
+  outlines: Point[][]; // Outer face of the exterior walls of each separate building or wing, counter-clockwise
+  holes: Point[][]; // Courtyards, light wells and shafts inside the outlines
+  grossArea: number; // Outlines minus holes, in mm²
+  netArea: number; // Gross area minus walls, restricted zones and cores, in mm²
+}
+
+export interface EnvelopeOptions {
+  minHoleArea: number; // Smaller gaps between rooms and walls are drafting slivers, in mm²
+}
+
+const DEFAULT_ENVELOPE_OPTIONS: EnvelopeOptions = {
+  minHoleArea: 100000
+};
+
+export class EnvelopeCalculator {
+  private options: EnvelopeOptions;
+  private factory = new GeometryFactory();
+
+  constructor(options: Partial<EnvelopeOptions> = {}) {
+    this.options = { ...DEFAULT_ENVELOPE_OPTIONS, ...options };
+  }
+
+  // The building is everything covered by a wall, a room or an opening between them; what stays
+  // uncovered inside it is a courtyard or shaft. Returns null when walls give no usable outline.
+  calculate(
+    walls: Wall[],
+    rooms: Room[],
+    doors: Door[],
+    windows: Window[],
+    restrictedAreas: RestrictedArea[],
+    cores: Point[][] = []
+  ): BuildingEnvelope | null {
+    if (walls.length === 0) return null;
+
+    try {
+      const wallFootprint = UnaryUnionOp.union(this.factory.createGeometryCollection(
+        walls.map(wall => this.bufferSegment(wall.start, wall.end, wall.thickness / 2, BufferParameters.CAP_SQUARE))
+      ));
+
+      const thicknessOf = new Map(walls.map(wall => [wall.id, wall.thickness]));
+      const openings = [...doors, ...windows]
+        .filter(opening => opening.wallId && opening.angle !== undefined && thicknessOf.has(opening.wallId))
+        .map(opening => {
+          const radians = opening.angle! * Math.PI / 180;
+          const half = { x: Math.cos(radians) * opening.width / 2, y: Math.sin(radians) * opening.width / 2 };
+          return this.bufferSegment(
+            { x: opening.position.x - half.x, y: opening.position.y - half.y },
+            { x: opening.position.x + half.x, y: opening.position.y + half.y },
+            thicknessOf.get(opening.wallId!)! / 2,
+            BufferParameters.CAP_FLAT
+          );
+        });
+
+      const covered = UnaryUnionOp.union(this.factory.createGeometryCollection([
+        wallFootprint,
+        ...openings,
+        ...rooms.map(room => this.toPolygon(room.polygon))
+      ]));
+
+      // Separate buildings and wings drawn on one plan each keep their own outline
+      const buildings = this.getPolygons(covered);
+      if (buildings.length === 0) return null;
+
+      // Walls that enclose no room leave nothing but their own footprint; their hull is the best outline left
+      if (rooms.length === 0) {
+        console.warn('Building envelope: walls enclose no rooms; using their convex hulls');
+      }
+      const envelope = UnaryUnionOp.union(this.factory.createGeometryCollection(buildings.map(building => {
+        if (rooms.length === 0) return building.getConvexHull();
+
+        const rings: any[] = [];
+        for (let i = 0; i < building.getNumInteriorRing(); i++) {
+          const ring = building.getInteriorRingN(i);
+          if (this.factory.createPolygon(ring).getArea() >= this.options.minHoleArea) rings.push(ring);
+        }
+        return this.factory.createPolygon(building.getExteriorRing(), rings);
+      })));
+
+      const obstructions = UnaryUnionOp.union(this.factory.createGeometryCollection([
+        wallFootprint,
+        // A zero buffer repairs self-intersecting zone outlines
+        ...[...restrictedAreas.map(area => area.bounds), ...cores]
+          .filter(outline => outline.length >= 3)
+          .map(outline => BufferOp.bufferOp(this.toPolygon(outline), 0))
+      ]));
+      const netArea = OverlayOp.overlayOp(envelope, obstructions, OverlayOp.DIFFERENCE).getArea();
+
+      const outlines: Point[][] = [];
+      const holes: Point[][] = [];
+      this.getPolygons(envelope).forEach(building => {
+        outlines.push(this.toPoints(building.getExteriorRing()));
+        for (let i = 0; i < building.getNumInteriorRing(); i++) {
+          holes.push(this.toPoints(building.getInteriorRingN(i)));
+        }
+      });
+
+      console.log(`Building envelope: ${outlines.length} outline(s), ${holes.length} holes, ` +
+        `${(envelope.getArea() / 1e6).toFixed(1)} m² gross, ${(netArea / 1e6).toFixed(1)} m² net`);
+      return { outlines, holes, grossArea: envelope.getArea(), netArea };
+    } catch (error) {
+      console.warn('Could not compute the building envelope:', error);
+      return null;
+    }
+  }
+
+  private getPolygons(geometry: any): any[] {
+    const polygons: any[] = [];
+    for (let i = 0; i < geometry.getNumGeometries(); i++) {
+      const piece = geometry.getGeometryN(i);
+      if (piece.getGeometryType() === 'Polygon' && !piece.isEmpty()) polygons.push(piece);
+    }
+    return polygons;
+  }
+
+  private bufferSegment(start: Point, end: Point, distance: number, endCapStyle: number): any {
+    const parameters = new BufferParameters();
+    parameters.setEndCapStyle(endCapStyle);
+    parameters.setJoinStyle(BufferParameters.JOIN_MITRE);
+    const line = this.factory.createLineString([new Coordinate(start.x, start.y), new Coordinate(end.x, end.y)]);
+    return BufferOp.bufferOp(line, distance, parameters);
+  }
+
+  private toPolygon(points: Point[]): any {
+    const coordinates = points.map(point => new Coordinate(point.x, point.y));
+    coordinates.push(new Coordinate(points[0].x, points[0].y));
+    return this.factory.createPolygon(coordinates);
+  }
+
+  private toPoints(ring: any): Point[] {
+    // Drop the closing coordinate, then the near-duplicate and collinear vertices that buffering and union leave behind
+    const points: Point[] = [];
+    ring.getCoordinates().slice(0, -1).forEach((c: any) => {
+      const last = points[points.length - 1];
+      if (!last || Math.hypot(c.x - last.x, c.y - last.y) > 1) points.push({ x: c.x, y: c.y });
+    });
+    if (points.length > 1 && Math.hypot(points[0].x - points[points.length - 1].x, points[0].y - points[points.length - 1].y) <= 1) {
+      points.pop();
+    }
+
+    const kept = [...points];
+    for (let i = 0; i < kept.length && kept.length > 3;) {
+      const previous = kept[(i - 1 + kept.length) % kept.length];
+      const point = kept[i];
+      const next = kept[(i + 1) % kept.length];
+      const cross = (point.x - previous.x) * (next.y - point.y) - (point.y - previous.y) * (next.x - point.x);
+      if (Math.abs(cross) <= 1e-6 * Math.hypot(point.x - previous.x, point.y - previous.y) * Math.hypot(next.x - point.x, next.y - point.y)) {
+        kept.splice(i, 1);
+      } else {
+        i++;
+      }
+    }
+
+    // Outlines run counter-clockwise like room polygons
+    const signedArea = kept.reduce((sum, point, i) => {
+      const next = kept[(i + 1) % kept.length];
+      return sum + point.x * next.y - next.x * point.y;
+    }, 0);
+    return signedArea < 0 ? kept.reverse() : kept;
+  }
+}
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { CADProcessor } from './cadProcessor';
+import { BUILT_IN_LAYER_PROFILES } from './layerMapping';
+import { blocks, dimension, dxfFile, entities, header, insert, layerTable, rectangle } from '../test/dxfFixture';
+
+const AIA_PROFILE = BUILT_IN_LAYER_PROFILES.find(profile => profile.id === 'aia')!;
+const FRENCH_PROFILE = BUILT_IN_LAYER_PROFILES.find(profile => profile.id === 'french')!;
+
+const importDXF = async (...args: Parameters<CADProcessor['processDXF']>) => {
+  const { data, report } = await new CADProcessor().processDXF(...args);
+  return { levels: data?.levels ?? [], report };
+};
+
+describe('CADProcessor DXF import', () => {
+  it('turns a drafted outline into walls, one room and its gross area', async () => {
+    const { levels } = await importDXF(dxfFile([entities([rectangle('WALL', 0, 0, 10000, 8000)])]));
+
+    expect(levels).toHaveLength(1);
+    const floorPlan = levels[0].floorPlan;
+    expect(floorPlan.walls).toHaveLength(4);
+    expect(floorPlan.rooms).toHaveLength(1);
+    expect(floorPlan.totalArea / 1e6).toBeCloseTo(83.64, 1);
+  });
+
+  it('places block geometry where the INSERT puts it', async () => {
+    const { levels } = await importDXF(dxfFile([
+      blocks([{ name: 'ROOM', entities: [rectangle('WALL', 0, 0, 5000, 4000)] }]),
+      entities([insert('WALL', 'ROOM', 20000, 10000, [[41, 2], [42, 2]])])
+    ]));
+
+    const points = levels[0].floorPlan.walls.flatMap(wall => [wall.start, wall.end]);
+    expect(Math.min(...points.map(point => point.x))).toBeCloseTo(20000);
+    expect(Math.max(...points.map(point => point.x))).toBeCloseTo(30000);
+    expect(Math.max(...points.map(point => point.y))).toBeCloseTo(18000);
+  });
+
+  it('keeps a mapped wall layer as walls whatever its colour', async () => {
+    const { levels } = await importDXF(
+      dxfFile([layerTable([{ name: 'MUR', color: 1 }]), entities([rectangle('MUR', 0, 0, 10000, 8000)])]),
+      { layerProfile: FRENCH_PROFILE }
+    );
+
+    expect(levels).toHaveLength(1);
+    expect(levels[0].floorPlan.walls).toHaveLength(4);
+    expect(levels[0].floorPlan.entrances).toHaveLength(0);
+  });
+
+  it('does not turn black or grey unmapped layers into walls', async () => {
+    const { levels } = await importDXF(
+      dxfFile([
+        layerTable([{ name: 'MUR', color: 7 }, { name: 'GRILLE', color: 8 }, { name: 'CARTOUCHE', color: 7 }]),
+        entities([
+          rectangle('MUR', 0, 0, 10000, 8000),
+          rectangle('GRILLE', -5000, -5000, 30000, 30000),
+          rectangle('CARTOUCHE', 12000, 0, 3000, 1000)
+        ])
+      ]),
+      { layerProfile: FRENCH_PROFILE }
+    );
+
+    expect(levels[0].floorPlan.walls.map(wall => wall.layer)).toEqual(['MUR', 'MUR', 'MUR', 'MUR']);
+  });
+
+  it('keeps geometry on off and frozen layers for display without analysing it', async () => {
+    const { levels, report } = await importDXF(
+      dxfFile([
+        layerTable([{ name: 'A-WALL', color: 7 }, { name: 'A-WALL-OLD', color: -7 }, { name: 'A-WALL-DEMO', color: 7, frozen: true }]),
+        entities([
+          rectangle('A-WALL', 0, 0, 10000, 8000),
+          rectangle('A-WALL-OLD', 2000, 2000, 3000, 3000),
+          rectangle('A-WALL-DEMO', 6000, 2000, 3000, 3000)
+        ])
+      ]),
+      { layerProfile: AIA_PROFILE }
+    );
+
+    const floorPlan = levels[0].floorPlan;
+    expect(floorPlan.walls.filter(wall => wall.layer === 'A-WALL-OLD')).toHaveLength(4);
+    expect(floorPlan.walls.filter(wall => wall.layer === 'A-WALL-DEMO')).toHaveLength(4);
+    expect(floorPlan.rooms).toHaveLength(1);
+    expect(report.skipped.find(item => item.reason.startsWith('entities on layers that are off or frozen'))?.count).toBe(8);
+  });
+
+  it('keeps every separate building in the envelope', async () => {
+    const { levels } = await importDXF(
+      dxfFile([entities([rectangle('WALL', 0, 0, 10000, 8000), rectangle('WALL', 30000, 0, 10000, 8000)])]),
+      { floorSplit: 'none' }
+    );
+
+    const floorPlan = levels[0].floorPlan;
+    expect(floorPlan.outlines).toHaveLength(2);
+    expect(floorPlan.totalArea / 1e6).toBeCloseTo(2 * 83.64, 1);
+  });
+
+  it('does not rescale a drawing whose $INSUNITS are declared', async () => {
+    const { levels, report } = await importDXF(dxfFile([
+      header({ $INSUNITS: [70, 6] }),
+      entities([rectangle('WALL', 0, 0, 10, 8), dimension(0, 10, 10000)])
+    ]));
+
+    expect(levels[0].floorPlan.totalArea / 1e6).toBeCloseTo(83.64, 1);
+    expect(report.messages.some(message => message.severity === 'warning' && message.message.includes('declared units were kept'))).toBe(true);
+  });
+});
@@ -1,6 +1,127 @@
 
-import { FloorPlan, Wall, Door, Window, Point } from '../types/cad';
+import { FloorPlan, Wall, Door, Window, Point, RestrictedArea, Entrance, Layer, LayerMappingProfile, LayerCategory, Building, FloorSplitMode, ImportResult, TextLabel } from '../types/cad';
 import { v4 as uuidv4 } from 'uuid';
+import { getDocument, GlobalWorkerOptions, OPS } from 'pdfjs-dist';
+import type { PDFPageProxy } from 'pdfjs-dist';
+import { DXFEntity, DXFDocument, DXFHatchEdge } from './dxfParser';
+import { CurveTessellator } from './curveTessellator';
+import { DXFBlockResolver } from './dxfBlockResolver';
+import { LayerMapper, DEFAULT_LAYER_PROFILE } from './layerMapping';
+import { DXFUnitDetector, DXFUnitInfo } from './dxfUnits';
+import { WallPairer, WallSegment } from './wallPairing';
+import { WallTopologyHealer } from './wallTopology';
+import { RoomDetector } from './roomDetector';
+import { DXFTextExtractor } from './dxfText';
+import { DoorDetector, DoorSymbols, DoorArc } from './doorDetector';
+import { WindowDetector } from './windowDetector';
+import { EnvelopeCalculator } from './buildingEnvelope';
+import { ZoneClassifier } from './zoneClassifier';
+import { ColumnDetector } from './columnDetector';
+import { CirculationDetector } from './circulationDetector';
+import { FloorSplitter } from './floorSplitter';
+import { DXFStreamReader, DXFParseProgress } from './dxfStreamReader';
+import { DXFWorkerClient } from './dxfWorkerClient';
+import { DWGConverter } from './dwgConverter';
+import { ImportReporter } from './importReport';
+import { RasterVectorizer, RasterImage, RasterVectorData } from './rasterVectorizer';
+import { ColorClassifier, DEFAULT_COLOR_REFERENCES, RGBColor, aciToRgb, trueColorToRgb, hexToRgb, ACI_BYBLOCK, ACI_BYLAYER } from './colorClassifier';
+
+GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString();
+
+export interface PDFImportOptions {
+  pageNumber: number; // 1-based page of the drawing set to import
+  drawingScale: number; // Plot scale denominator (100 = 1:100)
+  minWallLength: number; // Shortest stroke in mm treated as a wall
+  colorTolerance: number; // Largest CIE76 ΔE between a stroke or fill colour and a reference colour
+}
+
+export interface DXFImportOptions {
+  curveTolerance: number; // Maximum deviation in millimetres when flattening arcs, ellipses and splines
+  includeHiddenLayers: boolean; // Analyse geometry on layers that are off or frozen
+  layerProfile: LayerMappingProfile; // Maps layer names to walls, doors, windows and zones
+  colorTolerance: number; // Largest CIE76 ΔE between an entity colour and a reference colour
+  floorSplit: FloorSplitMode; // How a drawing holding several floors is divided into levels
+  storeyHeight: number; // Elevation step between consecutive levels, in mm
+  columnClearance: number; // Free space kept around each detected column, in mm
+  onProgress?: (progress: DXFParseProgress) => void;
+  signal?: AbortSignal; // Cancels parsing; the import then rejects with an AbortError
+}
+
+export interface RasterImportOptions {
+  dpi: number; // Scan resolution
+  drawingScale: number; // Plot scale denominator (100 = 1:100)
+  calibration: number; // Correction from a measured reference length, 1 when uncalibrated
+  minWallLength: number; // Shortest stroke in mm treated as a wall
+  colorTolerance: number; // Largest CIE76 ΔE between a pixel colour and a zone reference colour
+}
+
+const DEFAULT_DXF_IMPORT_OPTIONS: DXFImportOptions = {
+  curveTolerance: 10,
+  includeHiddenLayers: false,
+  layerProfile: DEFAULT_LAYER_PROFILE,
+  colorTolerance: 20,
+  floorSplit: 'auto',
+  storeyHeight: 3000,
+  columnClearance: 300
+};
+
+// Entity types the analysis reads; anything else is counted but left out
+const ANALYSED_DXF_ENTITIES = new Set([
+  'LINE', 'LWPOLYLINE', 'POLYLINE', 'ARC', 'CIRCLE', 'ELLIPSE', 'SPLINE', 'INSERT', 'TEXT', 'MTEXT', 'ATTRIB', 'ATTDEF', 'DIMENSION',
+  'HATCH', 'SOLID', 'TRACE'
+]);
+
+// Filled areas: zones when their layer, pattern or colour says so, never wall linework
+const FILL_ENTITIES = new Set(['HATCH', 'SOLID', 'TRACE']);
+
+type Matrix = [number, number, number, number, number, number];
+
+interface PDFPathSegment {
+  start: Point;
+  end: Point;
+  lineWidth: number;
+  strokeColor: string;
+}
+
+interface PDFCurve {
+  points: Point[]; // Start, control 1, control 2, end
+  lineWidth: number;
+  strokeColor: string;
+}
+
+interface PDFFilledShape {
+  points: Point[];
+  fillColor: string;
+}
+
+interface PDFOutline {
+  points: Point[]; // Corners of a closed stroked subpath
+  strokeColor: string;
+}
+
+interface PDFTextItem {
+  text: string;
+  position: Point;
+  height: number;
+}
+
+interface PDFVectorData {
+  segments: PDFPathSegment[];
+  curves: PDFCurve[];
+  fills: PDFFilledShape[];
+  outlines: PDFOutline[];
+  text: PDFTextItem[];
+}
+
+interface PDFGraphicsState {
+  ctm: Matrix;
+  lineWidth: number;
+  strokeColor: string;
+  fillColor: string;
+}
+
+const POINTS_TO_MM = 25.4 / 72;
+const MAX_RASTER_SIZE = 2000; // Longest image side in pixels analysed; larger scans are downsampled
 
 export class CADProcessor {
   // Canvas element for potential future processing
@@ -12,287 +133,1194 @@ export class CADProcessor {
     // this._ctx = this.canvas.getContext('2d')!;
   }
 
-  async processPDF(file: File): Promise<FloorPlan> {
+  async processPDF(file: File, options: Partial<PDFImportOptions> = {}): Promise<ImportResult<FloorPlan>> {
+    const report = new ImportReporter(file.name, 'PDF');
     const arrayBuffer = await file.arrayBuffer();
+    const config: PDFImportOptions = {
+      pageNumber: 1,
+      drawingScale: 100,
+      minWallLength: 300,
+      colorTolerance: 20,
+      ...options
+    };
     
-    // Enhanced PDF processing with geometric analysis
     try {
-      // Simulate PDF.js processing
-      await this.extractTextFromPDF(arrayBuffer);
-      const vectorData = await this.extractVectorDataFromPDF(arrayBuffer);
+      const pdf = await getDocument({ data: new Uint8Array(arrayBuffer) }).promise;
       
-      if (vectorData.walls.length > 0) {
-        return this.createFloorPlanFromPDFData(vectorData);
+      try {
+        const pageNumber = Math.min(Math.max(1, Math.round(config.pageNumber)), pdf.numPages);
+        const page = await pdf.getPage(pageNumber);
+        
+        report.info(`Processing PDF file: ${file.name} (page ${pageNumber} of ${pdf.numPages})`);
+        
+        const vectorData = await this.extractVectorDataFromPDF(page);
+        vectorData.text = await this.extractTextFromPDF(page);
+        
+        report.countEntities([
+          ...vectorData.segments.map(() => ({ type: 'Line segment', layer: 'PDF' })),
+          ...vectorData.curves.map(() => ({ type: 'Curve', layer: 'PDF' })),
+          ...vectorData.fills.map(() => ({ type: 'Filled shape', layer: 'PDF' })),
+          ...vectorData.text.map(() => ({ type: 'Text', layer: 'PDF' }))
+        ]);
+        
+        const mmPerPoint = POINTS_TO_MM * config.drawingScale;
+        report.unit(`Plot scale 1:${config.drawingScale} assumed: 1 pt = ${mmPerPoint.toFixed(2)} mm`);
+        
+        const { floorPlan, doorSymbols } = this.createFloorPlanFromPDFData(vectorData, config);
+        if (floorPlan.walls.length > 0) {
+          return { data: this.enhanceFloorPlanGeometry(floorPlan, report, doorSymbols), report: report.getReport() };
+        }
+        report.error(vectorData.segments.length === 0
+          ? 'The page holds no vector linework; it may be a scanned image, which should be imported as PNG or JPEG'
+          : 'No strokes were heavy or dark enough to be walls');
+      } finally {
+        await pdf.destroy();
       }
     } catch (error) {
-      console.warn('PDF processing failed, using enhanced demonstration layout:', error);
+      report.error(`PDF processing failed: ${error instanceof Error ? error.message : String(error)}`);
     }
     
-    return this.createAdvancedFloorPlan();
+    return { data: null, report: report.getReport() };
+  }
+
+  async getPDFPageCount(file: File): Promise<number> {
+    const pdf = await getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+    const pageCount = pdf.numPages;
+    await pdf.destroy();
+    return pageCount;
   }
 
-  async processDXF(file: File): Promise<FloorPlan> {
+  async processDXF(file: File, options: Partial<DXFImportOptions> = {}): Promise<ImportResult<Building>> {
+    const report = new ImportReporter(file.name, 'DXF');
+    const config = { ...DEFAULT_DXF_IMPORT_OPTIONS, ...options };
     try {
-      const text = await file.text();
-      
-      // Enhanced DXF parsing with layer detection
-      const lines = text.split('\n');
-      const entities = this.parseDXFEntitiesAdvanced(lines);
-      
-      console.log(`Processing DXF file: ${file.name}`);
-      console.log(`Found ${entities.length} entities in DXF file`);
-      
-      if (entities.length > 0) {
-        const floorPlan = this.convertEntitiesToAdvancedFloorPlan(entities);
-        
-        if (floorPlan.walls.length > 0) {
-          return this.enhanceFloorPlanGeometry(floorPlan);
-        }
-      }
-      
-      console.warn('No valid DXF entities found, generating advanced layout');
-      return this.createAdvancedFloorPlan();
+      report.info(`Processing DXF file: ${file.name}`);
+      const document = await this.readDXFDocument(file, config);
+      const building = this.createBuildingFromDXFData(document, config, this.getDrawingName(file), report);
+      return { data: building, report: report.getReport() };
     } catch (error) {
-      console.error('DXF processing error:', error);
-      return this.createAdvancedFloorPlan();
+      if (this.isAbortError(error)) throw error;
+      report.error(`DXF processing failed: ${error instanceof Error ? error.message : String(error)}`);
+      return { data: null, report: report.getReport() };
     }
   }
 
-  private async extractTextFromPDF(_arrayBuffer: ArrayBuffer): Promise<string> {
-    // Simulate PDF.js text extraction
-    return "Extracted PDF text content";
+  async processDWG(file: File, options: Partial<DXFImportOptions> = {}): Promise<ImportResult<Building>> {
+    // DWG is converted to DXF locally, then analysed like any DXF drawing
+    const report = new ImportReporter(file.name, 'DWG');
+    const config = { ...DEFAULT_DXF_IMPORT_OPTIONS, ...options };
+    try {
+      report.info(`Processing DWG file: ${file.name}`);
+      const dxf = await new DWGConverter().convertToDXF(await file.arrayBuffer());
+      const document = await this.readDXFDocument(new Blob([dxf]), config);
+      const building = this.createBuildingFromDXFData(document, config, this.getDrawingName(file), report);
+      return { data: building, report: report.getReport() };
+    } catch (error) {
+      if (this.isAbortError(error)) throw error;
+      report.error(`DWG processing failed: ${error instanceof Error ? error.message : String(error)}`);
+      return { data: null, report: report.getReport() };
+    }
   }
 
-  private async extractVectorDataFromPDF(_arrayBuffer: ArrayBuffer): Promise<any> {
-    // Simulate PDF.js vector extraction
+  // PDF pages and scans hold one floor each
+  createSingleLevelBuilding(floorPlan: FloorPlan, name: string): Building {
     return {
-      walls: [],
-      dimensions: [],
-      text: []
+      id: uuidv4(),
+      name,
+      levels: [{ id: uuidv4(), name: 'Ground floor', elevation: 0, floorPlan }]
+    };
+  }
+
+  async processImage(file: File, options: Partial<RasterImportOptions> = {}): Promise<ImportResult<FloorPlan>> {
+    const report = new ImportReporter(file.name, 'Image');
+    const config: RasterImportOptions = {
+      dpi: 150,
+      drawingScale: 100,
+      calibration: 1,
+      minWallLength: 300,
+      colorTolerance: 20,
+      ...options
     };
+
+    try {
+      report.info(`Processing image file: ${file.name}`);
+      const { image, resampling } = await this.loadRasterImage(file);
+      const mmPerPixel = 25.4 / config.dpi * config.drawingScale * config.calibration / resampling;
+      if (resampling < 1) {
+        report.repair(`Downsampled the scan to ${image.width} × ${image.height} px for analysis`);
+      }
+      report.unit(`${config.dpi} dpi at plot scale 1:${config.drawingScale}` +
+        `${config.calibration !== 1 ? `, calibrated ×${config.calibration.toFixed(3)}` : ', uncalibrated'}: 1 px = ${mmPerPixel.toFixed(2)} mm`);
+
+      const vectorData = new RasterVectorizer({
+        colorTolerance: config.colorTolerance,
+        minWallLength: Math.max(3, config.minWallLength / mmPerPixel),
+        lineTolerance: 1.5
+      }).vectorize(image);
+
+      report.countEntities([
+        ...vectorData.walls.map(() => ({ type: 'Wall stroke', layer: 'RASTER' })),
+        ...vectorData.restrictedZones.map(() => ({ type: 'Restricted zone', layer: 'RASTER' })),
+        ...vectorData.entranceOutlines.map(() => ({ type: 'Entrance mark', layer: 'RASTER' }))
+      ]);
+
+      const floorPlan = this.createFloorPlanFromRasterData(vectorData, image.height, mmPerPixel, config);
+      if (floorPlan.walls.length > 0) {
+        return { data: this.enhanceFloorPlanGeometry(floorPlan, report), report: report.getReport() };
+      }
+      report.error('No dark strokes long enough to be walls were found in the image');
+    } catch (error) {
+      report.error(`Image processing failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    return { data: null, report: report.getReport() };
+  }
+
+  private readDXFDocument(file: Blob, config: DXFImportOptions): Promise<DXFDocument> {
+    // Parsing runs in a worker where the platform has them; elsewhere the file is still streamed in slices
+    return typeof Worker !== 'undefined'
+      ? new DXFWorkerClient().parse(file, config.onProgress, config.signal)
+      : new DXFStreamReader({ onProgress: config.onProgress, signal: config.signal }).read(file);
+  }
+
+  private isAbortError(error: unknown): boolean {
+    return error instanceof DOMException && error.name === 'AbortError';
+  }
+
+  private createBuildingFromDXFData(parsed: DXFDocument, config: DXFImportOptions, name: string, report: ImportReporter): Building | null {
+    // Enhanced DXF parsing with layer detection
+    const { document, units } = this.resolveDXFDocument(parsed);
+    const layers = this.collectLayers(document);
+    const hiddenLayers = config.includeHiddenLayers ? new Set<string>() : this.getHiddenLayerNames(layers);
+    const isHidden = (entity: DXFEntity) => hiddenLayers.has(entity.layer);
+    const entities = document.entities.filter(entity => !isHidden(entity));
+    
+    report.info(`Found ${document.entities.length} entities on ${layers.length} layers in DXF file`);
+    report.countEntities(document.entities);
+    this.reportDXFUnits(units, report);
+    report.skip('entities on layers that are off or frozen (kept for display only)', document.entities.length - entities.length);
+
+    const unsupported = new Map<string, number>();
+    entities.filter(entity => !ANALYSED_DXF_ENTITIES.has(entity.type)).forEach(entity => {
+      unsupported.set(entity.type, (unsupported.get(entity.type) || 0) + 1);
+    });
+    unsupported.forEach((count, type) => report.skip(`unsupported ${type} entities`, count));
+    
+    if (entities.length === 0) {
+      report.error('The drawing contains no visible entities');
+      return null;
+    }
+
+    // Each floor drawn in the file becomes a level analysed on its own; entities on hidden layers
+    // follow the floor they are drawn on without taking part in the split
+    const categorize = this.createEntityCategorizer(layers, config);
+    const textExtractor = new DXFTextExtractor();
+    const groups = new FloorSplitter({ mode: config.floorSplit, storeyHeight: config.storeyHeight }).split(document.entities, {
+      categorize: entity => isHidden(entity) ? null : categorize(entity),
+      labelText: entity => isHidden(entity) ? null : textExtractor.getText(entity)
+    });
+
+    const levels = groups.flatMap(group => {
+      const analysed = group.entities.filter(entity => !isHidden(entity));
+      const { floorPlan, doorSymbols } = this.convertEntitiesToAdvancedFloorPlan(analysed, layers, units, config, categorize, report);
+      if (floorPlan.walls.length === 0) {
+        if (groups.length > 1) report.warn(`${group.name} has no walls and was left out`);
+        return [];
+      }
+
+      report.info(`Level ${group.name} at ${(group.elevation / 1000).toFixed(2)} m`);
+      // Hidden geometry goes through a scratch report; the import report already lists it as kept for display only
+      const hidden = group.entities.filter(isHidden);
+      const hiddenPlan = hidden.length > 0
+        ? this.convertEntitiesToAdvancedFloorPlan(hidden, layers, units, config, categorize, new ImportReporter(name, 'DXF')).floorPlan
+        : null;
+      return [{
+        id: uuidv4(),
+        name: group.name,
+        elevation: group.elevation,
+        floorPlan: this.addHiddenLayerGeometry(this.enhanceFloorPlanGeometry(floorPlan, report, doorSymbols), hiddenPlan)
+      }];
+    });
+
+    if (levels.length === 0) {
+      report.error('No wall geometry was found; check that the wall layers are mapped to the wall category');
+      return null;
+    }
+    return { id: uuidv4(), name, levels };
   }
 
-  private createFloorPlanFromPDFData(_vectorData: any): FloorPlan {
-    // Convert PDF vector data to floor plan
-    return this.createAdvancedFloorPlan();
+  private reportDXFUnits(units: DXFUnitInfo, report: ImportReporter): void {
+    if (units.source === 'DEFAULT') {
+      report.warn('The drawing declares no units ($INSUNITS or $MEASUREMENT); millimetres assumed');
+    }
+    report.unit(`Drawing units: ${units.unit} (from ${units.source})`);
+    if (units.millimetresPerUnit !== 1) {
+      report.unit(`Geometry scaled ×${units.millimetresPerUnit} from ${units.unit} to millimetres`);
+    }
+    if (units.dimensionScale !== 1) {
+      report.unit(`Geometry scaled ×${units.dimensionScale.toFixed(3)} to match the drawing's dimension values`);
+    } else if (units.measuredDimensionScale !== 1) {
+      report.warn(`Dimension values are ${units.measuredDimensionScale.toFixed(3)}× the geometry in the declared ${units.unit}; the declared units were kept`);
+    }
   }
 
-  private parseDXFEntitiesAdvanced(lines: string[]): any[] {
-    const entities = [];
-    let currentEntity = null;
-    let inEntitiesSection = false;
+  private getDrawingName(file: File): string {
+    return file.name.replace(/\.[^.]+$/, '');
+  }
 
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i].trim();
+  private async extractTextFromPDF(page: PDFPageProxy): Promise<PDFTextItem[]> {
+    const baseTransform = this.getPDFBaseTransform(page);
+    const content = await page.getTextContent();
+    const items: PDFTextItem[] = [];
+    
+    content.items.forEach(item => {
+      if (!('str' in item) || item.str.trim() === '') return;
       
-      // Track sections
-      if (line === 'ENTITIES') {
-        inEntitiesSection = true;
-        continue;
+      const transform = this.multiplyMatrices(baseTransform, item.transform as Matrix);
+      items.push({
+        text: item.str.trim(),
+        position: { x: transform[4], y: transform[5] },
+        height: Math.hypot(transform[2], transform[3])
+      });
+    });
+    
+    return items;
+  }
+
+  private async extractVectorDataFromPDF(page: PDFPageProxy): Promise<PDFVectorData> {
+    const operatorList = await page.getOperatorList();
+    const vectorData: PDFVectorData = { segments: [], curves: [], fills: [], outlines: [], text: [] };
+    const stateStack: PDFGraphicsState[] = [];
+    let state: PDFGraphicsState = {
+      ctm: this.getPDFBaseTransform(page),
+      lineWidth: 1,
+      strokeColor: '#000000',
+      fillColor: '#000000'
+    };
+
+    for (let i = 0; i < operatorList.fnArray.length; i++) {
+      const fn = operatorList.fnArray[i];
+      const args = operatorList.argsArray[i];
+
+      switch (fn) {
+        case OPS.save:
+          stateStack.push({ ...state });
+          break;
+        case OPS.restore:
+          state = stateStack.pop() || state;
+          break;
+        case OPS.transform:
+          state.ctm = this.multiplyMatrices(state.ctm, args as Matrix);
+          break;
+        case OPS.paintFormXObjectBegin:
+          stateStack.push({ ...state });
+          if (args[0]) {
+            state.ctm = this.multiplyMatrices(state.ctm, args[0] as Matrix);
+          }
+          break;
+        case OPS.paintFormXObjectEnd:
+          state = stateStack.pop() || state;
+          break;
+        case OPS.setLineWidth:
+          state.lineWidth = args[0];
+          break;
+        case OPS.setStrokeRGBColor:
+          state.strokeColor = args[0];
+          break;
+        case OPS.setFillRGBColor:
+          state.fillColor = args[0];
+          break;
+        case OPS.constructPath:
+          this.collectPDFPath(args[0], args[1]?.[0], state, vectorData);
+          break;
       }
-      if (line === 'ENDSEC') {
-        inEntitiesSection = false;
-        continue;
+    }
+
+    return vectorData;
+  }
+
+  private collectPDFPath(paintOp: number, pathData: ArrayLike<number> | undefined, state: PDFGraphicsState, vectorData: PDFVectorData): void {
+    if (!pathData) return;
+
+    const strokes = [
+      OPS.stroke, OPS.closeStroke, OPS.fillStroke, OPS.eoFillStroke,
+      OPS.closeFillStroke, OPS.closeEOFillStroke
+    ].includes(paintOp);
+    const fills = [
+      OPS.fill, OPS.eoFill, OPS.fillStroke, OPS.eoFillStroke,
+      OPS.closeFillStroke, OPS.closeEOFillStroke
+    ].includes(paintOp);
+    if (!strokes && !fills) return; // Clipping paths and endPath
+
+    // Scale the line width by the current transform so it is in page points
+    const lineWidth = Math.max(state.lineWidth, 0.1) * Math.sqrt(Math.abs(state.ctm[0] * state.ctm[3] - state.ctm[1] * state.ctm[2]));
+    const subpaths: Point[][] = [];
+    let current: Point[] = [];
+    let subpathStart: Point | null = null;
+    let closed = false;
+    const closesSubpaths = [OPS.closeStroke, OPS.closeFillStroke, OPS.closeEOFillStroke].includes(paintOp);
+
+    // A stroked subpath is an outline when it is closed explicitly or ends where it started
+    const addOutline = (points: Point[], closedPath: boolean) => {
+      const first = points[0];
+      const last = points[points.length - 1];
+      const endsAtStart = first.x === last.x && first.y === last.y;
+      const corners = endsAtStart ? points.slice(0, -1) : points;
+      if (strokes && corners.length >= 3 && (closedPath || closesSubpaths || endsAtStart)) {
+        vectorData.outlines.push({ points: corners, strokeColor: state.strokeColor });
       }
-      
-      if (!inEntitiesSection) continue;
-      
-      // Entity types
-      if (['LINE', 'POLYLINE', 'LWPOLYLINE', 'CIRCLE', 'ARC', 'TEXT', 'INSERT'].includes(line)) {
-        if (currentEntity) {
-          entities.push(currentEntity);
-        }
-        currentEntity = { 
-          type: line, 
-          properties: {} as any,
-          layer: 'UNKNOWN'
-        };
-        continue;
+    };
+
+    const addSegment = (start: Point, end: Point) => {
+      if (strokes && (start.x !== end.x || start.y !== end.y)) {
+        vectorData.segments.push({ start, end, lineWidth, strokeColor: state.strokeColor });
       }
-      
-      // Parse group codes
-      if (line.match(/^\d+$/)) {
-        const code = parseInt(line);
-        const value = lines[i + 1]?.trim();
-        
-        if (currentEntity && value !== undefined) {
-          switch (code) {
-            case 8: // Layer name
-              currentEntity.layer = value;
-              break;
-            case 10: // X coordinate (start point)
-              currentEntity.properties.x1 = parseFloat(value);
-              break;
-            case 20: // Y coordinate (start point)
-              currentEntity.properties.y1 = parseFloat(value);
-              break;
-            case 11: // X2 coordinate (end point)
-              currentEntity.properties.x2 = parseFloat(value);
-              break;
-            case 21: // Y2 coordinate (end point)
-              currentEntity.properties.y2 = parseFloat(value);
-              break;
-            case 40: // Radius
-              currentEntity.properties.radius = parseFloat(value);
-              break;
-            case 39: // Thickness
-              currentEntity.properties.thickness = parseFloat(value);
-              break;
-            case 1: // Text value
-              currentEntity.properties.text = value;
-              break;
-            case 2: // Block name
-              currentEntity.properties.blockName = value;
-              break;
-          }
+    };
+
+    for (let i = 0; i < pathData.length;) {
+      const op = pathData[i++];
+      const last = current[current.length - 1];
+
+      if (op === 0) { // moveTo
+        if (current.length > 1) {
+          subpaths.push(current);
+          addOutline(current, closed);
+        }
+        subpathStart = this.applyMatrix(state.ctm, pathData[i++], pathData[i++]);
+        current = [subpathStart];
+        closed = false;
+      } else if (op === 1 && last) { // lineTo
+        const point = this.applyMatrix(state.ctm, pathData[i++], pathData[i++]);
+        addSegment(last, point);
+        current.push(point);
+      } else if (op === 2 && last) { // curveTo
+        const cp1 = this.applyMatrix(state.ctm, pathData[i++], pathData[i++]);
+        const cp2 = this.applyMatrix(state.ctm, pathData[i++], pathData[i++]);
+        const end = this.applyMatrix(state.ctm, pathData[i++], pathData[i++]);
+        if (strokes) {
+          vectorData.curves.push({ points: [last, cp1, cp2, end], lineWidth, strokeColor: state.strokeColor });
+        }
+        current.push(end);
+      } else if (op === 3) { // closePath
+        if (last && subpathStart) {
+          addSegment(last, subpathStart);
+          closed = true;
         }
-        i++; // Skip the value line
+      } else {
+        break; // Malformed path data
       }
     }
-    
-    if (currentEntity) {
-      entities.push(currentEntity);
+    if (current.length > 1) {
+      subpaths.push(current);
+      addOutline(current, closed);
+    }
+
+    if (fills) {
+      subpaths
+        .filter(points => points.length >= 3)
+        .forEach(points => vectorData.fills.push({ points, fillColor: state.fillColor }));
     }
-    
-    return entities;
   }
 
-  private convertEntitiesToAdvancedFloorPlan(entities: any[]): FloorPlan {
-    const walls: Wall[] = [];
-    const doors: Door[] = [];
-    const windows: Window[] = [];
+  private getPDFBaseTransform(page: PDFPageProxy): Matrix {
+    // Viewport transform handles page rotation; flip back so Y points up like DXF model space
+    const viewport = page.getViewport({ scale: 1 });
+    return this.multiplyMatrices([1, 0, 0, -1, 0, viewport.height], viewport.transform as Matrix);
+  }
 
-    // Group entities by layer for better processing
-    const layerGroups = this.groupEntitiesByLayer(entities);
-    
-    // Process wall layers
-    const wallLayers = ['WALL', 'WALLS', 'A-WALL', 'ARCH-WALL', '0'];
-    wallLayers.forEach(layerName => {
-      if (layerGroups[layerName]) {
-        layerGroups[layerName].forEach(entity => {
-          if (entity.type === 'LINE' && this.isValidLineEntity(entity)) {
-            walls.push({
-              id: uuidv4(),
-              start: { x: entity.properties.x1, y: entity.properties.y1 },
-              end: { x: entity.properties.x2, y: entity.properties.y2 },
-              thickness: entity.properties.thickness || this.detectWallThickness(entity, layerGroups),
-              layer: entity.layer
-            });
-          }
-        });
+  private multiplyMatrices(m1: Matrix, m2: Matrix): Matrix {
+    return [
+      m1[0] * m2[0] + m1[2] * m2[1],
+      m1[1] * m2[0] + m1[3] * m2[1],
+      m1[0] * m2[2] + m1[2] * m2[3],
+      m1[1] * m2[2] + m1[3] * m2[3],
+      m1[0] * m2[4] + m1[2] * m2[5] + m1[4],
+      m1[1] * m2[4] + m1[3] * m2[5] + m1[5]
+    ];
+  }
+
+  private applyMatrix(m: Matrix, x: number, y: number): Point {
+    return {
+      x: m[0] * x + m[2] * y + m[4],
+      y: m[1] * x + m[3] * y + m[5]
+    };
+  }
+
+  private createFloorPlanFromPDFData(
+    vectorData: PDFVectorData,
+    options: PDFImportOptions
+  ): { floorPlan: FloorPlan; doorSymbols: DoorSymbols } {
+    const mmPerPoint = POINTS_TO_MM * options.drawingScale;
+    const toModel = (point: Point): Point => ({ x: point.x * mmPerPoint, y: point.y * mmPerPoint });
+    const colorClassifier = new ColorClassifier(options.colorTolerance, DEFAULT_COLOR_REFERENCES);
+    const classifyColor = (color: string) => colorClassifier.classify(hexToRgb(color));
+
+    // Red strokes mark entrances/exits and blue strokes outline forbidden zones; neither is a wall
+    const entranceOutlines: Point[][] = [];
+    const plainSegments = vectorData.segments.filter(segment => {
+      const category = classifyColor(segment.strokeColor);
+      if (category === 'entrance') {
+        entranceOutlines.push([toModel(segment.start), toModel(segment.end)]);
       }
+      return category !== 'entrance' && category !== 'restricted';
     });
 
-    // Process door and window layers
-    const doorLayers = ['DOOR', 'DOORS', 'A-DOOR'];
-    doorLayers.forEach(layerName => {
-      if (layerGroups[layerName]) {
-        layerGroups[layerName].forEach(entity => {
-          if (entity.type === 'INSERT' || entity.type === 'CIRCLE') {
-            doors.push(this.createDoorFromEntity(entity));
+    const labels: TextLabel[] = vectorData.text.map(item => ({
+      id: uuidv4(),
+      text: item.text,
+      position: toModel(item.position),
+      height: item.height * mmPerPoint,
+      rotation: 0,
+      layer: 'PDF',
+      source: 'PDF'
+    }));
+
+    // Stair treads and lift crosses are neither walls nor door leaves
+    const circulation = new CirculationDetector().detect(
+      plainSegments.map(segment => ({ start: toModel(segment.start), end: toModel(segment.end) })),
+      labels
+    );
+    const circulationSources = new Set(circulation.sources);
+
+    // Walls are the heavier dark strokes; thin lines are usually hatching, dimensions or furniture
+    const darkSegments = plainSegments.filter((segment, index) =>
+      !circulationSources.has(index) && this.getColorLuminance(segment.strokeColor) < 0.6
+    );
+    const wallLineWidth = this.getWeightedMedianLineWidth(darkSegments);
+
+    const walls: Wall[] = darkSegments
+      .filter(segment => segment.lineWidth >= wallLineWidth)
+      .map(segment => ({ start: toModel(segment.start), end: toModel(segment.end), segment }))
+      .filter(({ start, end }) => this.calculateDistance(start, end) >= options.minWallLength)
+      .map(({ start, end, segment }) => ({
+        id: uuidv4(),
+        start,
+        end,
+        thickness: Math.max(100, Math.min(500, segment.lineWidth * mmPerPoint)),
+        layer: 'PDF'
+      }));
+
+    // Solid dark fills are poché walls; blue fills mark forbidden zones and red fills entrances
+    const restrictedAreas: RestrictedArea[] = [];
+    vectorData.fills.forEach(shape => {
+      const points = shape.points.map(toModel);
+      if (this.calculatePolygonArea(points) < 10000) return; // Ignore specks under 1 dm²
+
+      const category = classifyColor(shape.fillColor);
+      if (category === 'restricted') {
+        restrictedAreas.push({
+          id: uuidv4(),
+          bounds: points,
+          type: 'NO_ENTRY',
+          description: 'Filled zone from PDF'
+        });
+      } else if (category === 'entrance') {
+        entranceOutlines.push(points);
+      } else if (this.getColorLuminance(shape.fillColor) < 0.35) {
+        points.forEach((point, index) => {
+          const next = points[(index + 1) % points.length];
+          if (this.calculateDistance(point, next) >= options.minWallLength) {
+            walls.push({ id: uuidv4(), start: point, end: next, thickness: 200, layer: 'PDF-FILL' });
           }
         });
       }
     });
 
-    // Calculate bounds and areas
+    // Closed blue outlines mark forbidden zones just like blue fills
+    vectorData.outlines.forEach(outline => {
+      if (classifyColor(outline.strokeColor) !== 'restricted') return;
+      const points = outline.points.map(toModel);
+      if (this.calculatePolygonArea(points) < 10000) return;
+
+      restrictedAreas.push({
+        id: uuidv4(),
+        bounds: points,
+        type: 'NO_ENTRY',
+        description: 'Outlined zone from PDF'
+      });
+    });
+
+    // Red arcs are entrance/exit swings rather than door leaves; the thin dark lines may be leaves
+    const doorSymbols: DoorSymbols = {
+      arcs: [],
+      lines: darkSegments
+        .filter(segment => segment.lineWidth < wallLineWidth)
+        .map(segment => ({ start: toModel(segment.start), end: toModel(segment.end) }))
+    };
+    vectorData.curves.forEach(curve => {
+      const points = curve.points.map(toModel);
+      if (classifyColor(curve.strokeColor) === 'entrance') {
+        entranceOutlines.push(points);
+        return;
+      }
+      const arc = this.getDoorArcFromPDFCurve(points);
+      if (arc) doorSymbols.arcs.push(arc);
+    });
+
+    const allPoints = walls.flatMap(wall => [wall.start, wall.end]);
+    const bounds = this.calculateBounds(allPoints);
+    const totalArea = this.calculatePolygonArea(bounds);
+
+    const floorPlan: FloorPlan = {
+      id: uuidv4(),
+      layers: [
+        this.createDefaultLayer('PDF', 7, walls.filter(wall => wall.layer === 'PDF').length),
+        this.createDefaultLayer('PDF-FILL', 8, walls.filter(wall => wall.layer === 'PDF-FILL').length)
+      ],
+      walls,
+      doors: [],
+      windows: [],
+      restrictedAreas: [...restrictedAreas, ...this.detectRestrictedAreas(labels)],
+      entrances: this.createEntrances(entranceOutlines, 'PDF', 100),
+      rooms: [],
+      verticalCirculation: circulation.elements,
+      labels,
+      bounds,
+      outlines: [bounds],
+      holes: [],
+      scale: options.drawingScale,
+      unit: 'mm',
+      totalArea,
+      usableArea: totalArea * 0.85
+    };
+
+    return { floorPlan, doorSymbols };
+  }
+
+  private async loadRasterImage(file: File): Promise<{ image: RasterImage; resampling: number }> {
+    const bitmap = await createImageBitmap(file);
+    try {
+      const resampling = Math.min(1, MAX_RASTER_SIZE / Math.max(bitmap.width, bitmap.height));
+      const width = Math.max(1, Math.round(bitmap.width * resampling));
+      const height = Math.max(1, Math.round(bitmap.height * resampling));
+
+      const canvas = new OffscreenCanvas(width, height);
+      const context = canvas.getContext('2d');
+      if (!context) {
+        throw new Error('2D canvas is not available for image decoding');
+      }
+      context.drawImage(bitmap, 0, 0, width, height);
+
+      return { image: context.getImageData(0, 0, width, height), resampling: width / bitmap.width };
+    } finally {
+      bitmap.close();
+    }
+  }
+
+  private createFloorPlanFromRasterData(
+    vectorData: RasterVectorData,
+    imageHeight: number,
+    mmPerPixel: number,
+    options: RasterImportOptions
+  ): FloorPlan {
+    // Image rows run downwards; flip so the plan reads the same way as DXF and PDF imports
+    const toModel = (point: Point): Point => ({ x: point.x * mmPerPixel, y: (imageHeight - point.y) * mmPerPixel });
+
+    const walls: Wall[] = vectorData.walls.map(stroke => ({
+      id: uuidv4(),
+      start: toModel(stroke.start),
+      end: toModel(stroke.end),
+      thickness: Math.max(100, Math.min(500, stroke.thickness * mmPerPixel)),
+      layer: 'RASTER'
+    }));
+
+    const restrictedAreas: RestrictedArea[] = vectorData.restrictedZones.map(zone => ({
+      id: uuidv4(),
+      bounds: zone.map(toModel),
+      type: 'NO_ENTRY',
+      description: 'Coloured zone from image'
+    }));
+
     const allPoints = walls.flatMap(wall => [wall.start, wall.end]);
     const bounds = this.calculateBounds(allPoints);
     const totalArea = this.calculatePolygonArea(bounds);
 
     return {
       id: uuidv4(),
+      layers: [this.createDefaultLayer('RASTER', 7, walls.length)],
       walls,
-      doors,
-      windows,
-      restrictedAreas: this.detectRestrictedAreas(entities),
+      doors: [],
+      windows: [],
+      restrictedAreas,
+      entrances: this.createEntrances(vectorData.entranceOutlines.map(outline => outline.map(toModel)), 'RASTER', 100),
+      rooms: [],
+      verticalCirculation: [],
+      labels: [],
       bounds,
-      scale: this.detectScale(entities),
-      unit: this.detectUnit(entities) as 'mm' | 'cm' | 'm' | 'ft' | 'in',
+      outlines: [bounds],
+      holes: [],
+      scale: options.drawingScale,
+      unit: 'mm',
       totalArea,
       usableArea: totalArea * 0.85
     };
   }
 
-  private groupEntitiesByLayer(entities: any[]): Record<string, any[]> {
-    const groups: Record<string, any[]> = {};
-    
-    entities.forEach(entity => {
-      const layer = entity.layer || 'UNKNOWN';
-      if (!groups[layer]) {
-        groups[layer] = [];
+  private getDoorArcFromPDFCurve(points: Point[]): DoorArc | null {
+    // A door swing is drawn as a circular arc; its centre is where the end normals meet
+    const [start, cp1, cp2, end] = points;
+    const t0 = { x: cp1.x - start.x, y: cp1.y - start.y };
+    const t1 = { x: end.x - cp2.x, y: end.y - cp2.y };
+    const denominator = t0.x * t1.y - t0.y * t1.x;
+    if (Math.abs(denominator) < 1e-9) return null;
+
+    const rhs0 = t0.x * start.x + t0.y * start.y;
+    const rhs1 = t1.x * end.x + t1.y * end.y;
+    const center = {
+      x: (rhs0 * t1.y - rhs1 * t0.y) / denominator,
+      y: (t0.x * rhs1 - t1.x * rhs0) / denominator
+    };
+
+    const radius = this.calculateDistance(center, start);
+    if (Math.abs(radius - this.calculateDistance(center, end)) >= radius * 0.1) return null;
+
+    return { center, radius, start, end };
+  }
+
+  private getWeightedMedianLineWidth(segments: PDFPathSegment[]): number {
+    if (segments.length === 0) return 0;
+
+    const sorted = segments
+      .map(segment => ({ width: segment.lineWidth, length: this.calculateDistance(segment.start, segment.end) }))
+      .sort((a, b) => a.width - b.width);
+    const halfLength = sorted.reduce((sum, item) => sum + item.length, 0) / 2;
+
+    let accumulated = 0;
+    for (const item of sorted) {
+      accumulated += item.length;
+      if (accumulated >= halfLength) return item.width;
+    }
+    return sorted[sorted.length - 1].width;
+  }
+
+  private getColorLuminance(color: string): number {
+    const { r, g, b } = hexToRgb(color);
+    return (0.2126 * r + 0.7152 * g + 0.0722 * b) / 255;
+  }
+
+  private createEntrances(outlines: Point[][], layer: string, mergeDistance: number): Entrance[] {
+    // Symbols drawn as several pieces (swing arc plus jamb lines) are merged when their extents touch
+    const clusters: { minX: number; minY: number; maxX: number; maxY: number }[] = [];
+
+    outlines.filter(points => points.length > 0).forEach(points => {
+      let box = {
+        minX: Math.min(...points.map(p => p.x)),
+        minY: Math.min(...points.map(p => p.y)),
+        maxX: Math.max(...points.map(p => p.x)),
+        maxY: Math.max(...points.map(p => p.y))
+      };
+
+      for (let i = clusters.length - 1; i >= 0; i--) {
+        const other = clusters[i];
+        const touches = box.minX - mergeDistance <= other.maxX && other.minX - mergeDistance <= box.maxX &&
+          box.minY - mergeDistance <= other.maxY && other.minY - mergeDistance <= box.maxY;
+        if (touches) {
+          box = {
+            minX: Math.min(box.minX, other.minX),
+            minY: Math.min(box.minY, other.minY),
+            maxX: Math.max(box.maxX, other.maxX),
+            maxY: Math.max(box.maxY, other.maxY)
+          };
+          clusters.splice(i, 1);
+        }
       }
-      groups[layer].push(entity);
+      clusters.push(box);
     });
-    
-    return groups;
+
+    return clusters.map(box => ({
+      id: uuidv4(),
+      position: { x: (box.minX + box.maxX) / 2, y: (box.minY + box.maxY) / 2 },
+      width: Math.max(box.maxX - box.minX, box.maxY - box.minY),
+      bounds: this.calculateBounds([{ x: box.minX, y: box.minY }, { x: box.maxX, y: box.maxY }]),
+      layer
+    }));
   }
 
-  private isValidLineEntity(entity: any): boolean {
-    return entity.properties.x1 !== undefined &&
-           entity.properties.y1 !== undefined &&
-           entity.properties.x2 !== undefined &&
-           entity.properties.y2 !== undefined &&
-           (entity.properties.x1 !== entity.properties.x2 || 
-            entity.properties.y1 !== entity.properties.y2);
+  private calculateDistance(p1: Point, p2: Point): number {
+    return Math.sqrt(Math.pow(p2.x - p1.x, 2) + Math.pow(p2.y - p1.y, 2));
   }
 
-  private detectWallThickness(entity: any, layerGroups: Record<string, any[]>): number {
-    // Analyze parallel lines to detect wall thickness
-    const parallelLines = this.findParallelLines(entity, layerGroups);
-    
-    if (parallelLines.length > 0) {
-      const distances = parallelLines.map(line => 
-        this.distanceBetweenParallelLines(entity, line)
-      );
-      const minDistance = Math.min(...distances);
-      return minDistance > 50 && minDistance < 500 ? minDistance : 200; // Default 200mm
+  private resolveDXFDocument(document: DXFDocument): { document: DXFDocument; units: DXFUnitInfo } {
+    // Block references are expanded in place so geometry stored in blocks is analysed like any other,
+    // and all geometry is scaled to millimetres, the unit every downstream constant assumes
+    const units = new DXFUnitDetector().detect(document);
+    const toMillimetres = units.millimetresPerUnit * units.dimensionScale;
+
+    // Layouts other than the active one are stored as *Paper_Space blocks; they may hold further floors
+    const resolver = new DXFBlockResolver(document.blocks);
+    const layoutEntities = Object.values(document.blocks)
+      .filter(block => /^\*paper_space\d+$/i.test(block.name))
+      .flatMap(block => resolver.resolve(block.entities, toMillimetres).map(entity => ({
+        ...entity,
+        properties: { ...entity.properties, paperSpace: true, layout: entity.properties.layout || block.name.slice(1) }
+      })));
+
+    return {
+      document: {
+        ...document,
+        entities: [...resolver.resolve(document.entities, toMillimetres), ...layoutEntities]
+      },
+      units
+    };
+  }
+
+  private collectLayers(document: DXFDocument): Layer[] {
+    // Entities may reference layers that the LAYER table does not declare
+    const layers = new Map(document.layers.map(layer => [layer.name, { ...layer, entityCount: 0 }]));
+    document.entities.forEach(entity => {
+      if (!layers.has(entity.layer)) {
+        layers.set(entity.layer, this.createDefaultLayer(entity.layer));
+      }
+      layers.get(entity.layer)!.entityCount++;
+    });
+
+    return [...layers.values()];
+  }
+
+  private getHiddenLayerNames(layers: Layer[]): Set<string> {
+    return new Set(layers.filter(layer => !layer.on || layer.frozen).map(layer => layer.name));
+  }
+
+  private addHiddenLayerGeometry(floorPlan: FloorPlan, hidden: FloorPlan | null): FloorPlan {
+    // Drawn as-is so the layer panel can show it again; rooms, doors and areas were found without it
+    if (!hidden) return floorPlan;
+    return {
+      ...floorPlan,
+      walls: [...floorPlan.walls, ...hidden.walls],
+      doors: [...floorPlan.doors, ...hidden.doors],
+      windows: [...floorPlan.windows, ...hidden.windows],
+      restrictedAreas: [...floorPlan.restrictedAreas, ...hidden.restrictedAreas],
+      entrances: [...floorPlan.entrances, ...hidden.entrances],
+      labels: [...floorPlan.labels, ...hidden.labels]
+    };
+  }
+
+  private createDefaultLayer(name: string, color: number = 7, entityCount: number = 0): Layer {
+    return {
+      name,
+      color,
+      linetype: 'CONTINUOUS',
+      on: true,
+      frozen: false,
+      plottable: true,
+      entityCount
+    };
+  }
+
+  private explodeCurves(entities: DXFEntity[], tessellator: CurveTessellator): DXFEntity[] {
+    // Break polylines and curves into LINE entities so walls, thickness and parallel-line analysis treat them alike
+    return entities.flatMap(entity => {
+      const paths = this.tessellateEntity(entity, tessellator);
+      if (!paths) return [entity];
+
+      return paths.flatMap(points => points.slice(1).map((end, index) => ({
+        type: 'LINE',
+        layer: entity.layer,
+        properties: {
+          x1: points[index].x,
+          y1: points[index].y,
+          x2: end.x,
+          y2: end.y,
+          thickness: entity.properties.thickness
+        }
+      })));
+    });
+  }
+
+  private tessellateEntity(entity: DXFEntity, tessellator: CurveTessellator): Point[][] | null {
+    const properties = entity.properties;
+    const center = { x: properties.x1 || 0, y: properties.y1 || 0 };
+
+    switch (entity.type) {
+      case 'LWPOLYLINE':
+      case 'POLYLINE': {
+        const vertices = entity.vertices || [];
+        const segmentCount = entity.closed ? vertices.length : vertices.length - 1;
+        const paths: Point[][] = [];
+
+        for (let i = 0; i < segmentCount; i++) {
+          const start = vertices[i];
+          const end = vertices[(i + 1) % vertices.length];
+          paths.push(tessellator.tessellateBulge(start, end, start.bulge));
+        }
+        return paths;
+      }
+      case 'ARC':
+        if (!properties.radius) return [];
+        return [tessellator.tessellateArc(
+          center,
+          properties.radius,
+          (properties.startAngle || 0) * Math.PI / 180,
+          (properties.endAngle ?? 360) * Math.PI / 180
+        )];
+      case 'CIRCLE':
+        if (!properties.radius) return [];
+        return [tessellator.tessellateCircle(center, properties.radius)];
+      case 'ELLIPSE': {
+        if (properties.majorAxisX === undefined || properties.majorAxisY === undefined) return [];
+        const ratio = properties.axisRatio || 1;
+        return [tessellator.tessellateEllipse(
+          center,
+          { x: properties.majorAxisX, y: properties.majorAxisY },
+          {
+            x: properties.minorAxisX ?? -properties.majorAxisY * ratio,
+            y: properties.minorAxisY ?? properties.majorAxisX * ratio
+          },
+          properties.startParameter || 0,
+          properties.endParameter ?? 2 * Math.PI
+        )];
+      }
+      case 'SPLINE':
+        return [tessellator.tessellateSpline({
+          degree: properties.degree || 3,
+          controlPoints: properties.controlPoints || [],
+          knots: properties.knots || [],
+          weights: properties.weights || [],
+          fitPoints: properties.fitPoints || [],
+          closed: entity.closed || false
+        })];
+      default:
+        return null;
     }
-    
-    return 200; // Default wall thickness
   }
 
-  private findParallelLines(targetLine: any, layerGroups: Record<string, any[]>): any[] {
-    const parallel: any[] = [];
-    const tolerance = 0.1; // Angle tolerance in radians
-    
-    const targetAngle = Math.atan2(
-      targetLine.properties.y2 - targetLine.properties.y1,
-      targetLine.properties.x2 - targetLine.properties.x1
+  private convertEntitiesToAdvancedFloorPlan(
+    entities: DXFEntity[],
+    layers: Layer[],
+    units: DXFUnitInfo,
+    options: DXFImportOptions,
+    categorize: (entity: DXFEntity) => LayerCategory | null,
+    report: ImportReporter
+  ): { floorPlan: FloorPlan; doorSymbols: DoorSymbols } {
+    const walls: Wall[] = [];
+    const doors: Door[] = [];
+    const windows: Window[] = [];
+    const restrictedAreas: RestrictedArea[] = [];
+    const entranceOutlines = new Map<string, Point[][]>(); // By layer, so each entrance keeps the layer it was drawn on
+    const addEntranceOutlines = (layer: string, outlines: Point[][]) => {
+      entranceOutlines.set(layer, [...(entranceOutlines.get(layer) || []), ...outlines]);
+    };
+    const tessellator = new CurveTessellator(options.curveTolerance);
+
+    const categorized = entities
+      .map(entity => ({ entity, category: categorize(entity) }))
+      .filter(({ category }) => category !== 'ignore');
+    report.skip('entities on ignored layers', entities.length - categorized.length);
+
+    // Columns are any small closed outline or fill outside door, window and entrance layers;
+    // they are found first so the same outlines do not also become plain zones
+    const zoneClassifier = new ZoneClassifier({ colorTolerance: options.colorTolerance });
+    const closedOutlines = new Map<DXFEntity, Point[][]>();
+    categorized
+      .filter(({ category }) => category !== 'door' && category !== 'window' && category !== 'entrance' && category !== 'level')
+      .forEach(({ entity }) => {
+        if (FILL_ENTITIES.has(entity.type)) {
+          closedOutlines.set(entity, this.getFillOutlines(entity, tessellator));
+        } else {
+          const outline = this.getClosedOutline(entity, tessellator);
+          closedOutlines.set(entity, outline ? [outline] : []);
+        }
+      });
+    const columnOutlines = [...closedOutlines].flatMap(([entity, outlines]) => outlines.map(outline => ({ entity, outline })));
+    const isStructural = (name?: string) => name !== undefined && zoneClassifier.classifyName(name) === 'STRUCTURAL';
+    const columnDetection = new ColumnDetector({ clearance: options.columnClearance }).detect(
+      columnOutlines.map(({ entity, outline }) => ({ outline, marked: isStructural(entity.layer) || isStructural(entity.block), layer: entity.layer }))
     );
-    
-    Object.values(layerGroups).flat().forEach(entity => {
-      if (entity !== targetLine && entity.type === 'LINE' && this.isValidLineEntity(entity)) {
-        const angle = Math.atan2(
-          entity.properties.y2 - entity.properties.y1,
-          entity.properties.x2 - entity.properties.x1
-        );
-        
-        const angleDiff = Math.abs(targetAngle - angle);
-        if (angleDiff < tolerance || Math.abs(angleDiff - Math.PI) < tolerance) {
-          parallel.push(entity);
+    const columnSources = new Set(columnDetection.sources.map(index => columnOutlines[index].outline));
+    const columnEntities = new Set(columnDetection.sources.map(index => columnOutlines[index].entity));
+    restrictedAreas.push(...columnDetection.columns);
+
+    // Stair treads and the crosses marking lifts and shafts are often drawn on wall layers; an entity
+    // whose every line belongs to such a symbol is left out of the walls and door symbols
+    const labels = new DXFTextExtractor().extract(categorized.map(({ entity }) => entity));
+    const circulationLines = categorized
+      .filter(({ entity, category }) => category !== 'door' && category !== 'window' && category !== 'entrance' &&
+        category !== 'level' && !columnEntities.has(entity) && ['LINE', 'LWPOLYLINE', 'POLYLINE'].includes(entity.type))
+      .flatMap(({ entity }) => this.explodeCurves([entity], tessellator)
+        .filter(line => line.type === 'LINE' && this.isValidLineEntity(line))
+        .map(line => ({
+          entity,
+          start: { x: line.properties.x1, y: line.properties.y1 },
+          end: { x: line.properties.x2, y: line.properties.y2 }
+        })));
+    const circulation = new CirculationDetector().detect(circulationLines, labels);
+    const circulationSources = new Set(circulation.sources);
+    const circulationEntities = new Set(circulation.sources.map(index => circulationLines[index].entity));
+    circulationLines.forEach((line, index) => {
+      if (!circulationSources.has(index)) circulationEntities.delete(line.entity);
+    });
+
+    // Curved walls are flattened to line segments, then the two faces of each wall merge into its centreline;
+    // columns drawn on wall layers are left out
+    const wallSegments: WallSegment[] = this.explodeCurves(
+      categorized
+        .filter(({ entity, category }) => category === 'wall' && !columnEntities.has(entity) && !circulationEntities.has(entity))
+        .map(({ entity }) => entity),
+      tessellator
+    )
+      .filter(entity => entity.type === 'LINE' && this.isValidLineEntity(entity))
+      .map(entity => ({
+        start: { x: entity.properties.x1, y: entity.properties.y1 },
+        end: { x: entity.properties.x2, y: entity.properties.y2 },
+        layer: entity.layer,
+        thickness: entity.properties.thickness
+      }));
+    const pairing = new WallPairer().pair(wallSegments);
+    walls.push(...pairing.walls);
+    console.log(`Paired ${pairing.pairedWalls} double-line walls; ${pairing.unpairedLines.length} single lines left`);
+    if (pairing.pairedWalls > 0) {
+      report.repair(`Merged ${pairing.pairedWalls} double-line walls into centrelines`);
+    }
+
+    // Door swings and window glazing are recognised geometrically on any layer that is not a wall or zone outline
+    const symbolEntities = categorized
+      .filter(({ entity, category }) => category !== 'wall' && category !== 'restricted' && category !== 'entrance' &&
+        category !== 'level' && !circulationEntities.has(entity))
+      .map(({ entity }) => entity);
+    const doorSymbols: DoorSymbols = {
+      arcs: symbolEntities.filter(entity => entity.type === 'ARC').map(entity => this.getDoorArc(entity)),
+      lines: this.explodeCurves(
+        symbolEntities.filter(entity => ['LINE', 'LWPOLYLINE', 'POLYLINE'].includes(entity.type)),
+        tessellator
+      )
+        .filter(entity => entity.type === 'LINE' && this.isValidLineEntity(entity))
+        .map(entity => ({
+          start: { x: entity.properties.x1, y: entity.properties.y1 },
+          end: { x: entity.properties.x2, y: entity.properties.y2 }
+        }))
+    };
+
+    // Process doors, windows, zones and entrances
+    const layersByName = new Map(layers.map(layer => [layer.name, layer]));
+    let unmarkedFills = 0;
+    categorized.forEach(({ entity, category }) => {
+      if (FILL_ENTITIES.has(entity.type)) {
+        const fillOutlines = closedOutlines.get(entity) ?? this.getFillOutlines(entity, tessellator);
+        const outlines = fillOutlines.filter(outline => !columnSources.has(outline));
+        const pattern = entity.properties.patternName;
+        if (fillOutlines.length > 0 && outlines.length === 0) return; // Every outline became a column
+        if (category === 'entrance') {
+          addEntranceOutlines(entity.layer, outlines);
+        } else if (category === 'restricted' || zoneClassifier.classifyName(entity.layer, pattern)) {
+          const type = zoneClassifier.classify({
+            layer: entity.layer,
+            pattern,
+            solid: entity.type !== 'HATCH' || entity.properties.solidFill === true,
+            color: this.resolveEntityColor(entity, layersByName)
+          });
+          outlines.forEach(outline => restrictedAreas.push({
+            id: uuidv4(),
+            bounds: outline,
+            type,
+            description: pattern ? `Layer ${entity.layer}, ${pattern} hatch` : `Layer ${entity.layer}`,
+            layer: entity.layer
+          }));
+        } else {
+          unmarkedFills++;
         }
+      } else if (category === 'door' && (entity.type === 'INSERT' || entity.type === 'CIRCLE')) {
+        doors.push(this.createDoorFromEntity(entity));
+      } else if (category === 'window' && entity.type === 'INSERT') {
+        windows.push(this.createWindowFromEntity(entity));
+      } else if (category === 'restricted') {
+        const outline = closedOutlines.get(entity)?.[0];
+        if (outline && !columnSources.has(outline)) {
+          restrictedAreas.push({
+            id: uuidv4(),
+            bounds: outline,
+            type: 'NO_ENTRY',
+            description: `Layer ${entity.layer}`,
+            layer: entity.layer
+          });
+        }
+      } else if (category === 'entrance') {
+        // Curves contribute their flattened shape; lines and block references their defining points
+        const { x1 = 0, y1 = 0, x2, y2 = 0 } = entity.properties;
+        const paths = this.tessellateEntity(entity, tessellator);
+        addEntranceOutlines(entity.layer, [paths
+          ? paths.flat()
+          : x2 !== undefined ? [{ x: x1, y: y1 }, { x: x2, y: y2 }] : [{ x: x1, y: y1 }]]);
       }
     });
-    
-    return parallel;
+
+    report.skip('hatches and solid fills that mark no zone', unmarkedFills);
+
+    // Calculate bounds and areas
+    const allPoints = walls.flatMap(wall => [wall.start, wall.end]);
+    const bounds = this.calculateBounds(allPoints);
+    const totalArea = this.calculatePolygonArea(bounds);
+
+    const floorPlan: FloorPlan = {
+      id: uuidv4(),
+      layers,
+      walls,
+      doors,
+      windows,
+      restrictedAreas: [...restrictedAreas, ...this.detectRestrictedAreas(labels)],
+      entrances: [...entranceOutlines].flatMap(([layer, outlines]) => this.createEntrances(outlines, layer, options.curveTolerance * 10)),
+      rooms: [],
+      verticalCirculation: circulation.elements,
+      labels,
+      bounds,
+      outlines: [bounds],
+      holes: [],
+      scale: units.dimensionScale,
+      unit: 'mm',
+      totalArea,
+      usableArea: totalArea * 0.85
+    };
+
+    return { floorPlan, doorSymbols };
   }
 
-  private distanceBetweenParallelLines(line1: any, line2: any): number {
-    // Calculate perpendicular distance between parallel lines
-    const x1 = line1.properties.x1;
-    const y1 = line1.properties.y1;
-    const x2 = line1.properties.x2;
-    const y2 = line1.properties.y2;
-    
-    const px = line2.properties.x1;
-    const py = line2.properties.y1;
-    
-    const A = y2 - y1;
-    const B = x1 - x2;
-    const C = x2 * y1 - x1 * y2;
-    
-    return Math.abs(A * px + B * py + C) / Math.sqrt(A * A + B * B);
+  private getDoorArc(entity: DXFEntity): DoorArc {
+    const center = { x: entity.properties.x1 || 0, y: entity.properties.y1 || 0 };
+    const radius = entity.properties.radius || 0;
+    const pointAt = (degrees: number) => ({
+      x: center.x + radius * Math.cos(degrees * Math.PI / 180),
+      y: center.y + radius * Math.sin(degrees * Math.PI / 180)
+    });
+    return {
+      center,
+      radius,
+      start: pointAt(entity.properties.startAngle || 0),
+      end: pointAt(entity.properties.endAngle ?? 360),
+      layer: entity.layer
+    };
+  }
+
+  private createEntityCategorizer(layers: Layer[], options: DXFImportOptions): (entity: DXFEntity) => LayerCategory | null {
+    // Classify layers with the selected mapping profile; ignored layers take no part in analysis
+    const mapper = new LayerMapper(options.layerProfile);
+
+    // Colour only fills in for layers the profile does not map, and only for zone and entrance colours:
+    // black and grey are every layer's default, so they say nothing about walls
+    const colorClassifier = new ColorClassifier(options.colorTolerance, DEFAULT_COLOR_REFERENCES);
+    const layersByName = new Map(layers.map(layer => [layer.name, layer]));
+    const categories = new Map<DXFEntity, LayerCategory | null>();
+
+    return entity => {
+      if (!categories.has(entity)) {
+        const layerCategory = mapper.classify(entity.layer);
+        const colorCategory = layerCategory === null
+          ? colorClassifier.classify(this.resolveEntityColor(entity, layersByName))
+          : null;
+        categories.set(entity, colorCategory === 'restricted' || colorCategory === 'entrance' ? colorCategory : layerCategory);
+      }
+      return categories.get(entity)!;
+    };
+  }
+
+  private resolveEntityColor(entity: DXFEntity, layersByName: Map<string, Layer>): RGBColor {
+    if (entity.properties.trueColor !== undefined) {
+      return trueColorToRgb(entity.properties.trueColor);
+    }
+
+    // BYBLOCK left over outside any block draws like BYLAYER
+    const color = entity.properties.color ?? ACI_BYLAYER;
+    if (color !== ACI_BYLAYER && color !== ACI_BYBLOCK) {
+      return aciToRgb(Math.abs(color));
+    }
+
+    const layer = layersByName.get(entity.layer);
+    if (layer?.trueColor !== undefined) {
+      return trueColorToRgb(layer.trueColor);
+    }
+    return aciToRgb(layer?.color ?? 7);
+  }
+
+  private getClosedOutline(entity: DXFEntity, tessellator: CurveTessellator): Point[] | null {
+    const isClosedCurve = entity.type === 'CIRCLE' ||
+      ((entity.type === 'LWPOLYLINE' || entity.type === 'POLYLINE' || entity.type === 'SPLINE') && entity.closed) ||
+      (entity.type === 'ELLIPSE' &&
+        (entity.properties.endParameter ?? 2 * Math.PI) - (entity.properties.startParameter || 0) >= 2 * Math.PI - 1e-6);
+    if (!isClosedCurve) return null;
+
+    // Adjacent tessellated paths share their end points
+    const points = (this.tessellateEntity(entity, tessellator) || [])
+      .flatMap((path, index) => (index === 0 ? path : path.slice(1)));
+    return points.length >= 3 ? points : null;
+  }
+
+  private getFillOutlines(entity: DXFEntity, tessellator: CurveTessellator): Point[][] {
+    const p = entity.properties;
+    if (entity.type !== 'HATCH') {
+      // SOLID corners run 1-2-4-3; a triangle repeats its third corner as the fourth
+      if (p.x3 === undefined || p.y3 === undefined) return [];
+      const corners = [{ x: p.x1 || 0, y: p.y1 || 0 }, { x: p.x2 ?? 0, y: p.y2 ?? 0 }];
+      if (p.x4 !== undefined && p.y4 !== undefined && (p.x4 !== p.x3 || p.y4 !== p.y3)) {
+        corners.push({ x: p.x4, y: p.y4 });
+      }
+      corners.push({ x: p.x3, y: p.y3 });
+      return this.calculatePolygonArea(corners) > 0 ? [corners] : [];
+    }
+
+    const loops = (entity.boundaries || []).map(boundary => {
+      if (boundary.vertices) {
+        return boundary.vertices.flatMap((start, i) => {
+          const end = boundary.vertices![(i + 1) % boundary.vertices!.length];
+          return tessellator.tessellateBulge(start, end, start.bulge).slice(0, -1);
+        });
+      }
+      return (boundary.edges || []).flatMap(edge => this.tessellateHatchEdge(edge, tessellator).slice(0, -1));
+    }).filter(loop => this.calculatePolygonArea(loop) > 0);
+
+    // Islands left unfilled inside a boundary are not cut out; the zone is the outer loop
+    return loops.filter(loop => !loops.some(other =>
+      other !== loop &&
+      this.calculatePolygonArea(other) > this.calculatePolygonArea(loop) &&
+      this.pointInPolygon(loop[0], other)
+    ));
+  }
+
+  private tessellateHatchEdge(edge: DXFHatchEdge, tessellator: CurveTessellator): Point[] {
+    switch (edge.type) {
+      case 'line':
+        return [edge.start, edge.end];
+      case 'arc': {
+        const points = tessellator.tessellateArc(
+          edge.center,
+          edge.radius,
+          edge.startAngle * Math.PI / 180,
+          edge.endAngle * Math.PI / 180
+        );
+        return edge.clockwise ? points.reverse() : points;
+      }
+      case 'ellipse': {
+        const points = tessellator.tessellateEllipse(
+          edge.center,
+          edge.majorAxis,
+          edge.minorAxis,
+          edge.startParameter,
+          edge.endParameter
+        );
+        return edge.clockwise ? points.reverse() : points;
+      }
+      case 'spline':
+        return tessellator.tessellateSpline({ ...edge, closed: false });
+    }
+  }
+
+  private pointInPolygon(point: Point, polygon: Point[]): boolean {
+    let inside = false;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+      if (
+        polygon[i].y > point.y !== polygon[j].y > point.y &&
+        point.x < ((polygon[j].x - polygon[i].x) * (point.y - polygon[i].y)) / (polygon[j].y - polygon[i].y) + polygon[i].x
+      ) {
+        inside = !inside;
+      }
+    }
+    return inside;
+  }
+
+  private isValidLineEntity(entity: any): boolean {
+    return entity.properties.x1 !== undefined &&
+           entity.properties.y1 !== undefined &&
+           entity.properties.x2 !== undefined &&
+           entity.properties.y2 !== undefined &&
+           (entity.properties.x1 !== entity.properties.x2 || 
+            entity.properties.y1 !== entity.properties.y2);
   }
 
   private createDoorFromEntity(entity: any): Door {
@@ -306,34 +1334,44 @@ export class CADProcessor {
       width: radius * 2,
       height: 2100, // Standard door height
       swing: 'in',
-      angle: 0
+      angle: 0,
+      layer: entity.layer
+    };
+  }
+
+  private createWindowFromEntity(entity: DXFEntity): Window {
+    return {
+      id: uuidv4(),
+      position: { x: entity.properties.x1 || 0, y: entity.properties.y1 || 0 },
+      width: 1200 * Math.abs(entity.properties.scaleX ?? 1), // Default 1.2m window block
+      height: 1200,
+      sillHeight: 900,
+      layer: entity.layer
     };
   }
 
-  private detectRestrictedAreas(entities: any[]): any[] {
-    const restrictedAreas: any[] = [];
+  private detectRestrictedAreas(labels: TextLabel[]): RestrictedArea[] {
+    const restrictedAreas: RestrictedArea[] = [];
     
-    // Look for bathroom, kitchen, or utility room indicators
-    entities.forEach(entity => {
-      if (entity.type === 'TEXT' && entity.properties.text) {
-        const text = entity.properties.text.toLowerCase();
-        if (['toilet', 'bath', 'kitchen', 'wc', 'utility'].some(keyword => text.includes(keyword))) {
-          restrictedAreas.push({
-            id: uuidv4(),
-            type: 'restricted',
-            bounds: this.createRestrictedAreaBounds(entity),
-            reason: text
-          });
-        }
+    // Bathrooms, kitchens and utility rooms are served by plumbing, so they are mechanical zones
+    labels.forEach(label => {
+      const text = label.text.toLowerCase();
+      if (['toilet', 'bath', 'kitchen', 'wc', 'utility'].some(keyword => text.includes(keyword))) {
+        restrictedAreas.push({
+          id: uuidv4(),
+          bounds: this.createRestrictedAreaBounds(label),
+          type: 'MECHANICAL',
+          description: `Label "${label.text}"`,
+          layer: label.layer
+        });
       }
     });
     
     return restrictedAreas;
   }
 
-  private createRestrictedAreaBounds(textEntity: any): Point[] {
-    const x = textEntity.properties.x1 || 0;
-    const y = textEntity.properties.y1 || 0;
+  private createRestrictedAreaBounds(label: TextLabel): Point[] {
+    const { x, y } = label.position;
     const size = 2000; // 2m x 2m default restricted area
     
     return [
@@ -344,73 +1382,69 @@ export class CADProcessor {
     ];
   }
 
-  private detectScale(entities: any[]): number {
-    // Look for dimension entities to detect scale
-    const dimensions = entities.filter(e => e.type === 'DIMENSION' || e.layer?.includes('DIM'));
-    
-    if (dimensions.length > 0) {
-      // Analyze dimension values to determine scale
-      return 1; // Simplified - assume 1:1 scale
-    }
-    
-    return 1;
-  }
+  private enhanceFloorPlanGeometry(
+    floorPlan: FloorPlan,
+    report: ImportReporter,
+    doorSymbols?: DoorSymbols
+  ): FloorPlan {
+    // Apply geometric analysis and cleanup
+    const drawnWalls = floorPlan.walls.length;
+    floorPlan.walls = new WallTopologyHealer().heal(floorPlan.walls);
+    report.repair(`Rebuilt wall topology: ${drawnWalls} drawn walls became ${floorPlan.walls.length} connected walls`);
 
-  private detectUnit(entities: any[]): string {
-    // Look for unit indicators in text or dimension entities
-    const textEntities = entities.filter(e => e.type === 'TEXT' && e.properties.text);
-    
-    for (const entity of textEntities) {
-      const text = entity.properties.text.toLowerCase();
-      if (text.includes('mm') || text.includes('millimeter')) return 'mm';
-      if (text.includes('cm') || text.includes('centimeter')) return 'cm';
-      if (text.includes('m') || text.includes('meter')) return 'm';
-      if (text.includes('ft') || text.includes('foot') || text.includes('feet')) return 'ft';
-      if (text.includes('in') || text.includes('inch')) return 'in';
+    // Doors found from their swing replace block or layer doors at the same opening
+    const doorDetector = new DoorDetector();
+    if (doorSymbols) {
+      const detected = doorDetector.detect(floorPlan.walls, doorSymbols);
+      floorPlan.doors = [
+        ...floorPlan.doors.filter(door => !detected.some(found => this.calculateDistance(found.position, door.position) <= found.width)),
+        ...detected
+      ];
     }
-    
-    return 'mm'; // Default unit
-  }
 
-  private enhanceFloorPlanGeometry(floorPlan: FloorPlan): FloorPlan {
-    // Apply geometric analysis and cleanup
-    floorPlan.walls = this.cleanupWallGeometry(floorPlan.walls);
-    floorPlan.bounds = this.recalculateBounds(floorPlan.walls);
-    floorPlan.totalArea = this.calculatePolygonArea(floorPlan.bounds);
-    floorPlan.usableArea = floorPlan.totalArea * 0.85;
-    
-    return floorPlan;
-  }
+    // Glazed openings in exterior walls are windows; window blocks are placed on their wall
+    floorPlan.windows = new WindowDetector().detect(floorPlan.walls, doorSymbols?.lines ?? [], floorPlan.windows);
 
-  private cleanupWallGeometry(walls: Wall[]): Wall[] {
-    // Remove duplicate walls
-    const cleaned: any[] = [];
-    const tolerance = 10; // 10mm tolerance
-    
-    walls.forEach(wall => {
-      const isDuplicate = cleaned.some(existing => 
-        this.areWallsSimilar(wall, existing, tolerance)
-      );
-      
-      if (!isDuplicate) {
-        cleaned.push(wall);
-      }
-    });
-    
-    return cleaned;
-  }
+    floorPlan.rooms = new RoomDetector().detect(floorPlan.walls, floorPlan.doors, floorPlan.labels, floorPlan.windows);
+    if (floorPlan.rooms.length === 0) {
+      report.warn('The walls enclose no rooms; îlots will be placed across the whole outline');
+    }
+    floorPlan.doors = doorDetector.resolveSwingDirections(floorPlan.doors, floorPlan.rooms);
 
-  private areWallsSimilar(wall1: Wall, wall2: Wall, tolerance: number): boolean {
-    const dist1 = Math.sqrt(
-      Math.pow(wall1.start.x - wall2.start.x, 2) + 
-      Math.pow(wall1.start.y - wall2.start.y, 2)
+    // Rooms named as stairs, lifts or shafts stand in for symbols the drawing lacks
+    floorPlan.verticalCirculation.push(
+      ...new CirculationDetector().detectLabelledCores(floorPlan.rooms, floorPlan.verticalCirculation)
     );
-    const dist2 = Math.sqrt(
-      Math.pow(wall1.end.x - wall2.end.x, 2) + 
-      Math.pow(wall1.end.y - wall2.end.y, 2)
+    if (floorPlan.verticalCirculation.length > 0) {
+      const count = (type: string) => floorPlan.verticalCirculation.filter(element => element.type === type).length;
+      const fromRooms = floorPlan.verticalCirculation.filter(element => element.source === 'LABEL').length;
+      report.info(`Found ${count('STAIR')} stairs, ${count('LIFT')} lifts and ${count('SHAFT')} shafts (${fromRooms} from room names)`);
+    }
+
+    const envelope = new EnvelopeCalculator().calculate(
+      floorPlan.walls,
+      floorPlan.rooms,
+      floorPlan.doors,
+      floorPlan.windows,
+      floorPlan.restrictedAreas,
+      floorPlan.verticalCirculation.map(element => element.polygon)
     );
+    if (envelope) {
+      floorPlan.bounds = this.calculateBounds(envelope.outlines.flat());
+      floorPlan.outlines = envelope.outlines;
+      floorPlan.holes = envelope.holes;
+      floorPlan.totalArea = envelope.grossArea;
+      floorPlan.usableArea = envelope.netArea;
+    } else {
+      report.warn('Could not trace the building outline; areas are estimated from the wall bounding box');
+      floorPlan.bounds = this.recalculateBounds(floorPlan.walls);
+      floorPlan.outlines = [floorPlan.bounds];
+      floorPlan.holes = [];
+      floorPlan.totalArea = this.calculatePolygonArea(floorPlan.bounds);
+      floorPlan.usableArea = floorPlan.totalArea * 0.85;
+    }
     
-    return dist1 < tolerance && dist2 < tolerance;
+    return floorPlan;
   }
 
   private recalculateBounds(walls: Wall[]): Point[] {
@@ -478,11 +1512,18 @@ export class CADProcessor {
 
     return {
       id: uuidv4(),
+      layers: [this.createDefaultLayer('EXTERIOR', 7, 4), this.createDefaultLayer('INTERIOR', 8, 5)],
       walls,
       doors,
       windows,
       restrictedAreas,
+      entrances: [],
+      rooms: [],
+      verticalCirculation: [],
+      labels: [],
       bounds,
+      outlines: [bounds],
+      holes: [],
       scale: 1,
       unit: 'mm',
       totalArea: 180000000, // 180 m²
@@ -0,0 +1,363 @@
+import { Point, Room, TextLabel, VerticalCirculation } from '../types/cad';
+import { v4 as uuidv4 } from 'uuid';
+
+export type CirculationType = VerticalCirculation['type'];
+
+export interface CirculationLine {
+  start: Point;
+  end: Point;
+}
+
+export interface CirculationDetectionOptions {
+  minTreadLength: number; // Narrowest flight, in mm
+  maxTreadLength: number; // Widest flight, in mm
+  minGoing: number; // Smallest distance between consecutive treads, in mm
+  maxGoing: number; // Largest distance between consecutive treads, in mm
+  minTreads: number; // Fewest evenly spaced treads that make a flight
+  spacingTolerance: number; // Relative difference between the goings of one flight
+  angleTolerance: number; // Degrees off parallel for treads and box sides
+  minBoxSize: number; // Smallest side of a box crossed by two diagonals, in mm
+  maxBoxSize: number; // Largest side of a box crossed by two diagonals, in mm
+  minLiftSize: number; // Unlabelled crossed boxes with both sides in the lift range are lift cars, the rest shafts
+  maxLiftSize: number;
+  crossTolerance: number; // Largest gap between the midpoints of the two diagonals of one box, in mm
+  labelDistance: number; // Labels this close to a symbol name it, in mm
+  keywords: { keyword: string; type: CirculationType }[]; // Searched for in labels and room names, first match wins
+}
+
+export interface CirculationDetectionResult {
+  elements: VerticalCirculation[];
+  sources: number[]; // Indexes of the lines drawn as part of a stair or a box cross
+}
+
+interface Tread {
+  index: number;
+  line: CirculationLine;
+  length: number;
+  center: Point;
+  direction: Point; // Unit vector along the tread
+}
+
+const DEFAULT_CIRCULATION_OPTIONS: CirculationDetectionOptions = {
+  minTreadLength: 700,
+  maxTreadLength: 3000,
+  minGoing: 200,
+  maxGoing: 400,
+  minTreads: 4,
+  spacingTolerance: 0.15,
+  angleTolerance: 3,
+  minBoxSize: 300,
+  maxBoxSize: 4000,
+  minLiftSize: 1000,
+  maxLiftSize: 3000,
+  crossTolerance: 50,
+  labelDistance: 1000,
+  keywords: [
+    { keyword: 'STAIR', type: 'STAIR' },
+    { keyword: 'ESCALIER', type: 'STAIR' },
+    { keyword: 'LIFT', type: 'LIFT' },
+    { keyword: 'ELEVATOR', type: 'LIFT' },
+    { keyword: 'ASCENSEUR', type: 'LIFT' },
+    { keyword: 'MONTE-CHARGE', type: 'LIFT' },
+    { keyword: 'SHAFT', type: 'SHAFT' },
+    { keyword: 'RISER', type: 'SHAFT' },
+    { keyword: 'GAINE', type: 'SHAFT' },
+    { keyword: 'TREMIE', type: 'SHAFT' }
+  ]
+};
+
+export class CirculationDetector {
+  private options: CirculationDetectionOptions;
+
+  constructor(options: Partial<CirculationDetectionOptions> = {}) {
+    this.options = { ...DEFAULT_CIRCULATION_OPTIONS, ...options };
+  }
+
+  // Stairs are runs of evenly spaced treads crossed by a walking line; lifts and shafts are boxes with a diagonal cross
+  detect(lines: CirculationLine[], labels: TextLabel[] = []): CirculationDetectionResult {
+    const used = new Set<number>();
+    const stairs = this.detectStairs(lines, labels, used);
+    const boxes = this.detectCrossedBoxes(lines, labels, used);
+    console.log(`Detected ${stairs.length} stair flights and ${boxes.length} crossed boxes from ${lines.length} lines`);
+
+    return { elements: [...stairs, ...boxes], sources: [...used] };
+  }
+
+  // Rooms named as stairs, lifts or shafts are cores even when their symbols are missing or unrecognised
+  detectLabelledCores(rooms: Room[], found: VerticalCirculation[]): VerticalCirculation[] {
+    return rooms.flatMap(room => {
+      const type = this.classifyName(room.name);
+      if (!type || found.some(element => this.pointInPolygon(this.getCentroid(element.polygon), room.polygon))) return [];
+      return [{ id: uuidv4(), type, polygon: room.polygon, name: room.name, source: 'LABEL' as const }];
+    });
+  }
+
+  // Type named by a label or room name, or null when it names none
+  classifyName(text: string): CirculationType | null {
+    const normalized = text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toUpperCase();
+    return this.options.keywords.find(({ keyword }) => normalized.includes(keyword))?.type ?? null;
+  }
+
+  private detectStairs(lines: CirculationLine[], labels: TextLabel[], used: Set<number>): VerticalCirculation[] {
+    const treads = lines
+      .map((line, index) => this.measureTread(line, index))
+      .filter((tread): tread is Tread => tread !== null);
+
+    // Treads are compared only within their direction, sorted along it, so each flight is a narrow window
+    const groups = new Map<number, Tread[]>();
+    treads.forEach(tread => {
+      const angle = (Math.atan2(tread.direction.y, tread.direction.x) * 180 / Math.PI + 180) % 180;
+      const key = Math.round(angle / this.options.angleTolerance) % Math.round(180 / this.options.angleTolerance);
+      groups.set(key, [...(groups.get(key) || []), tread]);
+    });
+
+    const stairs: VerticalCirculation[] = [];
+    groups.forEach(group => {
+      const axis = group[0].direction;
+      const along = (point: Point) => point.x * axis.x + point.y * axis.y;
+      group.sort((a, b) => along(a.center) - along(b.center));
+
+      group.forEach(seed => {
+        if (used.has(seed.index)) return;
+        const flight = this.growFlight(seed, group, along, used);
+        if (!flight) return;
+
+        const polygon = this.getFlightOutline(seed, flight);
+        const walkingLine = lines.some((line, index) =>
+          !used.has(index) && this.isWalkingLine(line, seed.direction, flight)
+        );
+        if (!walkingLine) return;
+
+        flight.forEach(tread => used.add(tread.index));
+        // The walking line, its arrowhead and the stringers lie within a going of the treads
+        lines.forEach((line, index) => {
+          if (this.isInside(line.start, polygon, this.options.maxGoing) && this.isInside(line.end, polygon, this.options.maxGoing)) {
+            used.add(index);
+          }
+        });
+
+        const label = this.findLabel(polygon, labels, type => type === 'STAIR');
+        stairs.push({ id: uuidv4(), type: 'STAIR', polygon, name: label?.text, source: 'SYMBOL' });
+      });
+    });
+
+    return stairs;
+  }
+
+  private measureTread(line: CirculationLine, index: number): Tread | null {
+    const length = this.getDistance(line.start, line.end);
+    if (length < this.options.minTreadLength || length > this.options.maxTreadLength) return null;
+
+    return {
+      index,
+      line,
+      length,
+      center: { x: (line.start.x + line.end.x) / 2, y: (line.start.y + line.end.y) / 2 },
+      direction: { x: (line.end.x - line.start.x) / length, y: (line.end.y - line.start.y) / length }
+    };
+  }
+
+  private growFlight(seed: Tread, group: Tread[], along: (point: Point) => number, used: Set<number>): Tread[] | null {
+    // Treads of one flight are the same length, side by side, and stepped evenly across the seed
+    const window = seed.length / 4;
+    const normal = { x: -seed.direction.y, y: seed.direction.x };
+    const parallel = Math.sin(this.options.angleTolerance * Math.PI / 180);
+    // The group is sorted along its first tread, which may be a degree or two off this one
+    const reach = window + this.options.maxGoing;
+    const start = this.lowerBound(group, along(seed.center) - reach, tread => along(tread.center));
+
+    const neighbours: { tread: Tread; offset: number }[] = [];
+    for (let i = start; i < group.length && along(group[i].center) <= along(seed.center) + reach; i++) {
+      const tread = group[i];
+      if (used.has(tread.index)) continue;
+      const offset = { x: tread.center.x - seed.center.x, y: tread.center.y - seed.center.y };
+      if (Math.abs(offset.x * seed.direction.x + offset.y * seed.direction.y) > window) continue;
+      if (Math.abs(tread.length - seed.length) > this.options.spacingTolerance * seed.length) continue;
+      if (Math.abs(tread.direction.x * seed.direction.y - tread.direction.y * seed.direction.x) > parallel) continue;
+      neighbours.push({ tread, offset: offset.x * normal.x + offset.y * normal.y });
+    }
+    neighbours.sort((a, b) => a.offset - b.offset);
+
+    const seedPosition = neighbours.findIndex(neighbour => neighbour.tread === seed);
+    const forward = this.walkTreads(neighbours.slice(seedPosition + 1), 0, null);
+    const backward = this.walkTreads(
+      neighbours.slice(0, seedPosition).reverse().map(neighbour => ({ ...neighbour, offset: -neighbour.offset })),
+      0,
+      forward.going
+    );
+
+    const flight = [...backward.treads.reverse(), seed, ...forward.treads];
+    return flight.length >= this.options.minTreads ? flight : null;
+  }
+
+  private walkTreads(
+    neighbours: { tread: Tread; offset: number }[],
+    position: number,
+    going: number | null
+  ): { treads: Tread[]; going: number | null } {
+    // Lines closer than a going, such as nosings, are stepped over; a larger gap ends the flight
+    const treads: Tread[] = [];
+    for (const neighbour of neighbours) {
+      const gap = neighbour.offset - position;
+      if (gap < this.options.minGoing) continue;
+      const even = going === null
+        ? gap <= this.options.maxGoing
+        : Math.abs(gap - going) <= this.options.spacingTolerance * going;
+      if (!even) break;
+
+      going = going ?? gap;
+      position = neighbour.offset;
+      treads.push(neighbour.tread);
+    }
+    return { treads, going };
+  }
+
+  private getFlightOutline(seed: Tread, flight: Tread[]): Point[] {
+    const normal = { x: -seed.direction.y, y: seed.direction.x };
+    const project = (point: Point, axis: Point) => (point.x - seed.center.x) * axis.x + (point.y - seed.center.y) * axis.y;
+    const along = flight.flatMap(tread => [project(tread.line.start, seed.direction), project(tread.line.end, seed.direction)]);
+    const across = flight.map(tread => project(tread.center, normal));
+    const corner = (u: number, v: number) => ({
+      x: seed.center.x + seed.direction.x * u + normal.x * v,
+      y: seed.center.y + seed.direction.y * u + normal.y * v
+    });
+
+    const [minAlong, maxAlong] = [Math.min(...along), Math.max(...along)];
+    const [minAcross, maxAcross] = [Math.min(...across), Math.max(...across)];
+    return [corner(minAlong, minAcross), corner(maxAlong, minAcross), corner(maxAlong, maxAcross), corner(minAlong, maxAcross)];
+  }
+
+  private isWalkingLine(line: CirculationLine, treadDirection: Point, flight: Tread[]): boolean {
+    // The walking line runs up the flight across its treads; arrowheads alone do not make a stair
+    const length = this.getDistance(line.start, line.end);
+    if (length === 0) return false;
+    const alignment = Math.abs((line.end.x - line.start.x) * treadDirection.x + (line.end.y - line.start.y) * treadDirection.y) / length;
+    if (alignment > 0.5) return false;
+
+    const crossed = flight.filter(tread => this.segmentsCross(line.start, line.end, tread.line.start, tread.line.end));
+    return crossed.length >= 2;
+  }
+
+  private detectCrossedBoxes(lines: CirculationLine[], labels: TextLabel[], used: Set<number>): VerticalCirculation[] {
+    const { minBoxSize, maxBoxSize, crossTolerance } = this.options;
+    const diagonals = lines
+      .map((line, index) => ({
+        line,
+        index,
+        length: this.getDistance(line.start, line.end),
+        middle: { x: (line.start.x + line.end.x) / 2, y: (line.start.y + line.end.y) / 2 }
+      }))
+      .filter(diagonal => !used.has(diagonal.index) &&
+        diagonal.length >= minBoxSize * Math.SQRT2 && diagonal.length <= maxBoxSize * Math.SQRT2)
+      .sort((a, b) => a.middle.x - b.middle.x);
+
+    // The diagonals of a rectangle are equally long and bisect each other; their ends are its corners
+    const boxes: VerticalCirculation[] = [];
+    diagonals.forEach((first, i) => {
+      if (used.has(first.index)) return;
+      for (let j = i + 1; j < diagonals.length && diagonals[j].middle.x - first.middle.x <= crossTolerance; j++) {
+        const second = diagonals[j];
+        if (used.has(second.index)) continue;
+        if (this.getDistance(first.middle, second.middle) > crossTolerance) continue;
+        if (Math.abs(first.length - second.length) > 2 * crossTolerance) continue;
+
+        const polygon = [first.line.start, second.line.start, first.line.end, second.line.end];
+        const sides = [this.getDistance(polygon[0], polygon[1]), this.getDistance(polygon[1], polygon[2])];
+        if (Math.min(...sides) < minBoxSize || Math.max(...sides) > maxBoxSize) continue;
+        if (!polygon.every((corner, k) => this.isEdgeDrawn(corner, polygon[(k + 1) % 4], lines, [first.index, second.index]))) continue;
+
+        used.add(first.index);
+        used.add(second.index);
+        const label = this.findLabel(polygon, labels, type => type !== 'STAIR');
+        const carSized = Math.min(...sides) >= this.options.minLiftSize && Math.max(...sides) <= this.options.maxLiftSize;
+        boxes.push({
+          id: uuidv4(),
+          type: label ? this.classifyName(label.text)! : carSized ? 'LIFT' : 'SHAFT',
+          polygon,
+          name: label?.text,
+          source: 'SYMBOL'
+        });
+        return;
+      }
+    });
+
+    return boxes;
+  }
+
+  private isEdgeDrawn(start: Point, end: Point, lines: CirculationLine[], excluded: number[]): boolean {
+    // At least most of each side must be drawn, by one line or several, so two crossing lines alone are no box
+    const length = this.getDistance(start, end);
+    const direction = { x: (end.x - start.x) / length, y: (end.y - start.y) / length };
+    const offset = (point: Point) => Math.abs((point.x - start.x) * direction.y - (point.y - start.y) * direction.x);
+    const project = (point: Point) => (point.x - start.x) * direction.x + (point.y - start.y) * direction.y;
+
+    const covered = lines.reduce((sum, line, index) => {
+      if (excluded.includes(index)) return sum;
+      if (offset(line.start) > this.options.crossTolerance || offset(line.end) > this.options.crossTolerance) return sum;
+      const [from, to] = [project(line.start), project(line.end)].sort((a, b) => a - b);
+      return sum + Math.max(0, Math.min(length, to) - Math.max(0, from));
+    }, 0);
+    return covered >= 0.8 * length;
+  }
+
+  private findLabel(polygon: Point[], labels: TextLabel[], accepts: (type: CirculationType) => boolean): TextLabel | undefined {
+    const center = this.getCentroid(polygon);
+    return labels
+      .filter(label => {
+        const type = this.classifyName(label.text);
+        return type !== null && accepts(type) && this.isInside(label.position, polygon, this.options.labelDistance);
+      })
+      .sort((a, b) => this.getDistance(a.position, center) - this.getDistance(b.position, center))[0];
+  }
+
+  private isInside(point: Point, polygon: Point[], tolerance: number): boolean {
+    return this.pointInPolygon(point, polygon) ||
+      polygon.some((start, i) => this.distancePointToSegment(point, start, polygon[(i + 1) % polygon.length]) <= tolerance);
+  }
+
+  private lowerBound<T>(items: T[], value: number, key: (item: T) => number): number {
+    let low = 0;
+    let high = items.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (key(items[middle]) < value) low = middle + 1;
+      else high = middle;
+    }
+    return low;
+  }
+
+  private segmentsCross(a: Point, b: Point, c: Point, d: Point): boolean {
+    const side = (p: Point, q: Point, r: Point) => Math.sign((q.x - p.x) * (r.y - p.y) - (q.y - p.y) * (r.x - p.x));
+    return side(a, b, c) * side(a, b, d) < 0 && side(c, d, a) * side(c, d, b) < 0;
+  }
+
+  private pointInPolygon(point: Point, polygon: Point[]): boolean {
+    let inside = false;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+      if (((polygon[i].y > point.y) !== (polygon[j].y > point.y)) &&
+          (point.x < (polygon[j].x - polygon[i].x) * (point.y - polygon[i].y) / (polygon[j].y - polygon[i].y) + polygon[i].x)) {
+        inside = !inside;
+      }
+    }
+    return inside;
+  }
+
+  private distancePointToSegment(point: Point, start: Point, end: Point): number {
+    const dx = end.x - start.x;
+    const dy = end.y - start.y;
+    const lengthSquared = dx * dx + dy * dy;
+    const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((point.x - start.x) * dx + (point.y - start.y) * dy) / lengthSquared));
+    return this.getDistance(point, { x: start.x + t * dx, y: start.y + t * dy });
+  }
+
+  private getCentroid(polygon: Point[]): Point {
+    return {
+      x: polygon.reduce((sum, point) => sum + point.x, 0) / polygon.length,
+      y: polygon.reduce((sum, point) => sum + point.y, 0) / polygon.length
+    };
+  }
+
+  private getDistance(a: Point, b: Point): number {
+    return Math.hypot(b.x - a.x, b.y - a.y);
+  }
+}
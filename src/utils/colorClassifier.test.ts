@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { ColorClassifier, DEFAULT_COLOR_REFERENCES, aciToRgb, hexToRgb, trueColorToRgb } from './colorClassifier';
+
+const classifier = new ColorClassifier(20, DEFAULT_COLOR_REFERENCES);
+
+describe('ColorClassifier', () => {
+  it('reads reference plan colours as walls, forbidden zones and entrances', () => {
+    expect(classifier.classify(aciToRgb(7))).toBe('wall');
+    expect(classifier.classify(aciToRgb(8))).toBe('wall');
+    expect(classifier.classify(hexToRgb('#87CEFA'))).toBe('restricted');
+    expect(classifier.classify(aciToRgb(1))).toBe('entrance');
+  });
+
+  it('leaves colours far from every reference unclassified', () => {
+    expect(classifier.classify(aciToRgb(3))).toBeNull();
+    expect(classifier.classify(trueColorToRgb(0xffa500))).toBeNull();
+  });
+
+  it('classifies against custom references', () => {
+    const zones = new ColorClassifier(20, [{ category: 'STRUCTURAL', color: { r: 255, g: 255, b: 0 } }]);
+
+    expect(zones.classify(aciToRgb(2))).toBe('STRUCTURAL');
+    expect(zones.classify(aciToRgb(7))).toBeNull();
+  });
+});
@@ -0,0 +1,140 @@
+export interface RGBColor {
+  r: number; // 0-255
+  g: number;
+  b: number;
+}
+
+export type ColorCategory = 'wall' | 'restricted' | 'entrance';
+
+export interface ColorReference<T extends string = ColorCategory> {
+  category: T;
+  color: RGBColor;
+}
+
+interface LabColor {
+  l: number;
+  a: number;
+  b: number;
+}
+
+// AutoCAD Color Index values with special meaning
+export const ACI_BYBLOCK = 0;
+export const ACI_BYLAYER = 256;
+
+// ACI 1-9; colour 7 prints black on paper, which is how reference plans are read
+const STANDARD_ACI_COLORS: RGBColor[] = [
+  { r: 255, g: 0, b: 0 },
+  { r: 255, g: 255, b: 0 },
+  { r: 0, g: 255, b: 0 },
+  { r: 0, g: 255, b: 255 },
+  { r: 0, g: 0, b: 255 },
+  { r: 255, g: 0, b: 255 },
+  { r: 0, g: 0, b: 0 },
+  { r: 128, g: 128, b: 128 },
+  { r: 192, g: 192, b: 192 }
+];
+
+// Walls in black/grey (MUR), forbidden zones in light blue (NO ENTREE), entrances/exits in red (ENTREE/SORTIE)
+export const DEFAULT_COLOR_REFERENCES: ColorReference[] = [
+  { category: 'wall', color: { r: 0, g: 0, b: 0 } },
+  { category: 'wall', color: { r: 64, g: 64, b: 64 } },
+  { category: 'wall', color: { r: 128, g: 128, b: 128 } },
+  { category: 'wall', color: { r: 192, g: 192, b: 192 } },
+  { category: 'restricted', color: { r: 173, g: 216, b: 230 } },
+  { category: 'restricted', color: { r: 135, g: 206, b: 250 } },
+  { category: 'restricted', color: { r: 59, g: 130, b: 246 } },
+  { category: 'restricted', color: { r: 0, g: 191, b: 255 } },
+  { category: 'entrance', color: { r: 255, g: 0, b: 0 } },
+  { category: 'entrance', color: { r: 239, g: 68, b: 68 } },
+  { category: 'entrance', color: { r: 204, g: 0, b: 0 } }
+];
+
+export function aciToRgb(index: number): RGBColor {
+  if (index >= 1 && index <= 9) {
+    return STANDARD_ACI_COLORS[index - 1];
+  }
+  if (index >= 250 && index <= 255) {
+    // Grey ramp from dark to white
+    const value = Math.round(51 + (index - 250) * 40.8);
+    return { r: value, g: value, b: value };
+  }
+  if (index >= 10 && index <= 249) {
+    // Hue steps of 15° per ten indices; even shades are saturated, odd ones pale, each pair darker
+    const hue = (Math.floor(index / 10) - 1) * 15;
+    const shade = index % 10;
+    const value = [1, 0.8, 0.6, 0.5, 0.3][Math.floor(shade / 2)];
+    const saturation = shade % 2 === 0 ? 1 : 0.5;
+    return hsvToRgb(hue, saturation, value);
+  }
+  return STANDARD_ACI_COLORS[6];
+}
+
+export function trueColorToRgb(value: number): RGBColor {
+  return { r: (value >> 16) & 0xff, g: (value >> 8) & 0xff, b: value & 0xff };
+}
+
+export function hexToRgb(color: string): RGBColor {
+  const hex = color.replace('#', '');
+  if (!/^[0-9a-f]{6}$/i.test(hex)) return { r: 0, g: 0, b: 0 };
+  return {
+    r: parseInt(hex.slice(0, 2), 16),
+    g: parseInt(hex.slice(2, 4), 16),
+    b: parseInt(hex.slice(4, 6), 16)
+  };
+}
+
+function hsvToRgb(hue: number, saturation: number, value: number): RGBColor {
+  const channel = (n: number) => {
+    const k = (n + hue / 60) % 6;
+    return Math.round(255 * (value - value * saturation * Math.max(0, Math.min(k, 4 - k, 1))));
+  };
+  return { r: channel(5), g: channel(3), b: channel(1) };
+}
+
+export class ColorClassifier<T extends string = ColorCategory> {
+  private references: { category: T; lab: LabColor }[];
+
+  // Tolerance is the largest CIE76 ΔE accepted between a colour and its nearest reference;
+  // pass DEFAULT_COLOR_REFERENCES for the wall, zone and entrance palette of reference plans
+  constructor(private tolerance: number, references: ColorReference<T>[]) {
+    this.references = references.map(reference => ({
+      category: reference.category,
+      lab: this.toLab(reference.color)
+    }));
+  }
+
+  classify(color: RGBColor): T | null {
+    // The nearest reference wins, so close shades such as light grey and light blue stay apart
+    const lab = this.toLab(color);
+    let best: T | null = null;
+    let bestDistance = Infinity;
+
+    for (const reference of this.references) {
+      const distance = Math.hypot(lab.l - reference.lab.l, lab.a - reference.lab.a, lab.b - reference.lab.b);
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = reference.category;
+      }
+    }
+
+    return bestDistance <= this.tolerance ? best : null;
+  }
+
+  private toLab(color: RGBColor): LabColor {
+    // sRGB → linear RGB → XYZ (D65) → CIELAB
+    const linear = [color.r, color.g, color.b].map(channel => {
+      const c = channel / 255;
+      return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+    });
+    const x = (0.4124 * linear[0] + 0.3576 * linear[1] + 0.1805 * linear[2]) / 0.95047;
+    const y = 0.2126 * linear[0] + 0.7152 * linear[1] + 0.0722 * linear[2];
+    const z = (0.0193 * linear[0] + 0.1192 * linear[1] + 0.9505 * linear[2]) / 1.08883;
+    const f = (t: number) => (t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116);
+
+    return {
+      l: 116 * f(y) - 16,
+      a: 500 * (f(x) - f(y)),
+      b: 200 * (f(y) - f(z))
+    };
+  }
+}
@@ -0,0 +1,194 @@
+import { Point, RestrictedArea } from '../types/cad';
+import { v4 as uuidv4 } from 'uuid';
+import GeometryFactory from 'jsts/org/locationtech/jts/geom/GeometryFactory.js';
+import Coordinate from 'jsts/org/locationtech/jts/geom/Coordinate.js';
+import BufferOp from 'jsts/org/locationtech/jts/operation/buffer/BufferOp.js';
+import BufferParameters from 'jsts/org/locationtech/jts/operation/buffer/BufferParameters.js';
+
+export interface ColumnCandidate {
+  outline: Point[]; // Closed outline without the repeated first point
+  marked: boolean; // On a structure layer or inside a column block, so it needs no grid to be trusted
+  layer?: string;
+}
+
+export interface ColumnDetectionOptions {
+  minSize: number; // Narrowest column side, in mm
+  maxSize: number; // Widest column side, in mm
+  maxAspectRatio: number; // Longer side over shorter side; blade columns are still columns
+  minFillRatio: number; // Outline area over its bounding rectangle; a circle fills π/4
+  minGridCount: number; // Unmarked outlines need this many look-alikes on one grid line
+  alignmentTolerance: number; // Largest offset of a column centre from its grid line, in mm
+  sizeTolerance: number; // Relative size difference between columns of one grid
+  clearance: number; // Free space kept around each column, in mm
+}
+
+export interface ColumnDetectionResult {
+  columns: RestrictedArea[];
+  sources: number[]; // Indexes of the candidates that became columns, duplicate outlines included
+}
+
+interface ColumnShape {
+  index: number;
+  center: Point;
+  axis: Point; // Unit vector along the longer side; the grid runs along it and across it
+  length: number;
+  width: number;
+  round: boolean;
+  candidate: ColumnCandidate;
+  duplicates: number[];
+}
+
+const DEFAULT_COLUMN_OPTIONS: ColumnDetectionOptions = {
+  minSize: 150,
+  maxSize: 1500,
+  maxAspectRatio: 3,
+  minFillRatio: 0.7,
+  minGridCount: 3,
+  alignmentTolerance: 50,
+  sizeTolerance: 0.2,
+  clearance: 300
+};
+
+export class ColumnDetector {
+  private options: ColumnDetectionOptions;
+  private factory = new GeometryFactory();
+
+  constructor(options: Partial<ColumnDetectionOptions> = {}) {
+    this.options = { ...DEFAULT_COLUMN_OPTIONS, ...options };
+  }
+
+  // Columns are small compact outlines: trusted on structure layers, otherwise only when repeated on a grid
+  detect(candidates: ColumnCandidate[]): ColumnDetectionResult {
+    const shapes: ColumnShape[] = [];
+
+    // Marked outlines first, so a hatch drawn over a column's outline folds into the trusted one
+    candidates
+      .map((candidate, index) => this.measure(candidate, index))
+      .filter((shape): shape is ColumnShape => shape !== null)
+      .sort((a, b) => Number(b.candidate.marked) - Number(a.candidate.marked))
+      .forEach(shape => {
+        const original = shapes.find(other =>
+          this.getDistance(other.center, shape.center) <= this.options.alignmentTolerance && this.isSameSize(other, shape)
+        );
+        if (original) {
+          original.duplicates.push(shape.index);
+        } else {
+          shapes.push(shape);
+        }
+      });
+
+    const columns = shapes.filter(shape => shape.candidate.marked || this.isOnGrid(shape, shapes));
+    console.log(`Detected ${columns.length} columns from ${candidates.length} closed outlines`);
+
+    return {
+      columns: columns.map(shape => ({
+        id: uuidv4(),
+        bounds: this.expand(shape.candidate.outline),
+        type: 'STRUCTURAL',
+        description: shape.round
+          ? `Column Ø${Math.round(Math.sqrt(4 * this.getArea(shape.candidate.outline) / Math.PI))} mm`
+          : `Column ${Math.round(shape.length)} × ${Math.round(shape.width)} mm`,
+        layer: shape.candidate.layer
+      })),
+      sources: columns.flatMap(shape => [shape.index, ...shape.duplicates])
+    };
+  }
+
+  private measure(candidate: ColumnCandidate, index: number): ColumnShape | null {
+    const outline = candidate.outline;
+    if (outline.length < 3) return null;
+
+    // The longest edge gives the orientation; tessellated circles have no meaningful one
+    let axis = { x: 1, y: 0 };
+    let longestEdge = 0;
+    outline.forEach((point, i) => {
+      const next = outline[(i + 1) % outline.length];
+      const edge = this.getDistance(point, next);
+      if (edge > longestEdge) {
+        longestEdge = edge;
+        axis = { x: (next.x - point.x) / edge, y: (next.y - point.y) / edge };
+      }
+    });
+
+    const extent = (direction: Point) => {
+      const projections = outline.map(point => point.x * direction.x + point.y * direction.y);
+      return { min: Math.min(...projections), max: Math.max(...projections) };
+    };
+    const along = extent(axis);
+    const across = extent({ x: -axis.y, y: axis.x });
+    const sizeAlong = along.max - along.min;
+    const sizeAcross = across.max - across.min;
+    const length = Math.max(sizeAlong, sizeAcross);
+    const width = Math.min(sizeAlong, sizeAcross);
+    const fillRatio = this.getArea(outline) / (sizeAlong * sizeAcross || 1);
+
+    if (width < this.options.minSize || length > this.options.maxSize) return null;
+    if (length / width > this.options.maxAspectRatio || fillRatio < this.options.minFillRatio) return null;
+
+    const middleAlong = (along.min + along.max) / 2;
+    const middleAcross = (across.min + across.max) / 2;
+    // Polygons of many short edges with a circle's fill ratio are drawn round
+    const round = outline.length > 8 && fillRatio < 0.9;
+
+    return {
+      index,
+      center: {
+        x: axis.x * middleAlong - axis.y * middleAcross,
+        y: axis.y * middleAlong + axis.x * middleAcross
+      },
+      axis: round ? { x: 1, y: 0 } : sizeAlong >= sizeAcross ? axis : { x: -axis.y, y: axis.x },
+      length,
+      width,
+      round,
+      candidate,
+      duplicates: []
+    };
+  }
+
+  private isOnGrid(shape: ColumnShape, shapes: ColumnShape[]): boolean {
+    // Count look-alikes whose centre sits on the line through this one, along each grid direction
+    let alongAxis = 0;
+    let acrossAxis = 0;
+    shapes.forEach(other => {
+      if (other === shape || !this.isSameSize(shape, other)) return;
+      const offset = { x: other.center.x - shape.center.x, y: other.center.y - shape.center.y };
+      if (Math.abs(offset.x * shape.axis.y - offset.y * shape.axis.x) <= this.options.alignmentTolerance) alongAxis++;
+      if (Math.abs(offset.x * shape.axis.x + offset.y * shape.axis.y) <= this.options.alignmentTolerance) acrossAxis++;
+    });
+    return 1 + Math.max(alongAxis, acrossAxis) >= this.options.minGridCount;
+  }
+
+  private isSameSize(a: ColumnShape, b: ColumnShape): boolean {
+    const tolerance = this.options.sizeTolerance;
+    return a.round === b.round &&
+      Math.abs(a.length - b.length) <= tolerance * Math.max(a.length, b.length) &&
+      Math.abs(a.width - b.width) <= tolerance * Math.max(a.width, b.width);
+  }
+
+  private expand(outline: Point[]): Point[] {
+    if (this.options.clearance <= 0) return outline;
+
+    // Mitred corners keep square columns square; round ones stay round
+    const parameters = new BufferParameters();
+    parameters.setJoinStyle(BufferParameters.JOIN_MITRE);
+    const coordinates = [...outline, outline[0]].map(point => new Coordinate(point.x, point.y));
+    try {
+      const buffered = BufferOp.bufferOp(this.factory.createPolygon(coordinates), this.options.clearance, parameters);
+      return buffered.getCoordinates().slice(0, -1).map((c: any) => ({ x: c.x, y: c.y }));
+    } catch (error) {
+      console.warn('Could not add clearance around a column outline:', error);
+      return outline;
+    }
+  }
+
+  private getArea(polygon: Point[]): number {
+    return Math.abs(polygon.reduce((sum, point, i) => {
+      const next = polygon[(i + 1) % polygon.length];
+      return sum + point.x * next.y - next.x * point.y;
+    }, 0)) / 2;
+  }
+
+  private getDistance(a: Point, b: Point): number {
+    return Math.hypot(b.x - a.x, b.y - a.y);
+  }
+}
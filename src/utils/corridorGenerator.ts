@@ -1,4 +1,4 @@
-import { Point, Ilot, FloorPlan, Corridor } from '../types/cad';
+import { Point, Ilot, FloorPlan, Corridor, VerticalCirculation } from '../types/cad';
 import { v4 as uuidv4 } from 'uuid';
 
 export interface CorridorConfig {
@@ -48,7 +48,10 @@ export class CorridorGenerator {
     corridors.push(...connectionCorridors);
 
     // Step 5: Optimize corridor network
-    return this.optimizeCorridorNetwork(corridors);
+    const network = this.optimizeCorridorNetwork(corridors);
+
+    // Step 6: Lead the network to the stairs and lifts that are the exits from the floor
+    return [...network, ...this.connectExits(network)];
   }
 
   private findFacingIlotPairs(): { ilot1: Ilot; ilot2: Ilot; direction: 'horizontal' | 'vertical' }[] {
@@ -429,6 +432,63 @@ export class CorridorGenerator {
     };
   }
 
+  private connectExits(corridors: Corridor[]): Corridor[] {
+    if (corridors.length === 0) return [];
+
+    const exitCorridors: Corridor[] = [];
+    this.floorPlan.verticalCirculation
+      .filter(element => element.type !== 'SHAFT')
+      .forEach(exit => {
+        const connection = this.createExitConnection(exit, corridors);
+        if (connection) {
+          exitCorridors.push(connection);
+        } else {
+          console.warn(`No corridor reaches ${exit.name || exit.type.toLowerCase()}`);
+        }
+      });
+
+    return exitCorridors;
+  }
+
+  private createExitConnection(exit: VerticalCirculation, corridors: Corridor[]): Corridor | null {
+    let bestConnection: Corridor | null = null;
+
+    // A stair or lift is entered from one of its sides; try the middle of each against every corridor
+    exit.polygon.forEach((corner, i) => {
+      const next = exit.polygon[(i + 1) % exit.polygon.length];
+      const access = { x: (corner.x + next.x) / 2, y: (corner.y + next.y) / 2 };
+
+      corridors.forEach(corridor => {
+        const closestPoint = this.findClosestPointOnPath(access, corridor.path);
+        const distance = this.calculateDistance(access, closestPoint);
+        if (distance > this.config.maxLength || (bestConnection && distance >= bestConnection.length)) return;
+
+        const path = [access, closestPoint];
+        if (!this.isExitPathValid(path)) return;
+
+        bestConnection = {
+          id: uuidv4(),
+          path,
+          width: this.config.width,
+          type: exit.type === 'STAIR' ? 'emergency' : 'secondary',
+          length: distance,
+          accessibility: this.config.accessibility,
+          exitId: exit.id
+        };
+      });
+    });
+
+    return bestConnection;
+  }
+
+  private isExitPathValid(path: Point[]): boolean {
+    // Exits sit against their enclosing walls, so only crossing a wall rules a path out, not passing close to one
+    const segment = { start: path[0], end: path[1] };
+    return !this.floorPlan.walls.some(wall => this.segmentsIntersect(segment.start, segment.end, wall.start, wall.end)) &&
+      !this.intersectsWithRestrictedAreas(segment) &&
+      !this.intersectsWithIlots(segment);
+  }
+
   private isCorridorValid(path: Point[]): boolean {
     // Check if corridor intersects with walls
     for (let i = 0; i < path.length - 1; i++) {
@@ -462,6 +522,8 @@ export class CorridorGenerator {
   private intersectsWithRestrictedAreas(segment: { start: Point; end: Point }): boolean {
     return this.floorPlan.restrictedAreas.some(area => {
       return this.segmentIntersectsPolygon(segment, area.bounds);
+    }) || this.floorPlan.verticalCirculation.some(element => {
+      return this.segmentIntersectsPolygon(segment, element.polygon);
     });
   }
 
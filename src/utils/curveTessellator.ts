@@ -0,0 +1,214 @@
+import { Point } from '../types/cad';
+
+export interface SplineDefinition {
+  degree: number;
+  controlPoints: Point[];
+  knots: number[];
+  weights: number[];
+  fitPoints: Point[];
+  closed: boolean;
+}
+
+const MAX_SUBDIVISION_DEPTH = 10;
+
+export class CurveTessellator {
+  // Tolerance is the maximum distance between a curve and its chords, in drawing units
+  constructor(private tolerance: number = 10) {}
+
+  tessellateArc(center: Point, radius: number, startAngle: number, endAngle: number): Point[] {
+    // DXF arcs run counter-clockwise from start to end angle (radians here)
+    let sweep = endAngle - startAngle;
+    while (sweep <= 0) sweep += 2 * Math.PI;
+    while (sweep > 2 * Math.PI) sweep -= 2 * Math.PI;
+
+    const steps = this.getArcSteps(radius, sweep);
+    const points: Point[] = [];
+
+    for (let i = 0; i <= steps; i++) {
+      const angle = startAngle + sweep * (i / steps);
+      points.push({
+        x: center.x + radius * Math.cos(angle),
+        y: center.y + radius * Math.sin(angle)
+      });
+    }
+
+    return points;
+  }
+
+  tessellateCircle(center: Point, radius: number): Point[] {
+    return this.tessellateArc(center, radius, 0, 2 * Math.PI);
+  }
+
+  tessellateBulge(start: Point, end: Point, bulge: number): Point[] {
+    // Bulge = tan(θ/4); the arc centre sits on the chord's perpendicular bisector
+    const chord = Math.hypot(end.x - start.x, end.y - start.y);
+    if (chord === 0 || bulge === 0) return [start, end];
+
+    const sweep = 4 * Math.atan(bulge);
+    const radius = chord / (2 * Math.sin(Math.abs(sweep) / 2));
+    const offset = radius * Math.cos(Math.abs(sweep) / 2) * Math.sign(bulge);
+    const center = {
+      x: (start.x + end.x) / 2 - offset * (end.y - start.y) / chord,
+      y: (start.y + end.y) / 2 + offset * (end.x - start.x) / chord
+    };
+
+    const startAngle = Math.atan2(start.y - center.y, start.x - center.x);
+    const steps = this.getArcSteps(radius, Math.abs(sweep));
+    const points: Point[] = [start];
+
+    for (let i = 1; i < steps; i++) {
+      const angle = startAngle + sweep * (i / steps);
+      points.push({
+        x: center.x + radius * Math.cos(angle),
+        y: center.y + radius * Math.sin(angle)
+      });
+    }
+    points.push(end);
+
+    return points;
+  }
+
+  tessellateEllipse(center: Point, majorAxis: Point, minorAxis: Point, startParameter: number, endParameter: number): Point[] {
+    // Points are center + majorAxis·cos(t) + minorAxis·sin(t); the axes only need to be
+    // conjugate, so an ellipse or arc under any affine block transform is still valid here
+    let sweep = endParameter - startParameter;
+    while (sweep <= 0) sweep += 2 * Math.PI;
+    while (sweep > 2 * Math.PI) sweep -= 2 * Math.PI;
+
+    const evaluate = (t: number): Point => ({
+      x: center.x + majorAxis.x * Math.cos(t) + minorAxis.x * Math.sin(t),
+      y: center.y + majorAxis.y * Math.cos(t) + minorAxis.y * Math.sin(t)
+    });
+
+    // Bound the step by the larger radius, then refine where the curve is tighter
+    const majorRadius = Math.max(Math.hypot(majorAxis.x, majorAxis.y), Math.hypot(minorAxis.x, minorAxis.y));
+    const steps = this.getArcSteps(majorRadius, sweep);
+    const parameters = Array.from({ length: steps + 1 }, (_, i) => startParameter + sweep * (i / steps));
+
+    return this.refineSamples(evaluate, parameters);
+  }
+
+  tessellateSpline(spline: SplineDefinition): Point[] {
+    const { degree, controlPoints, fitPoints } = spline;
+
+    if (controlPoints.length < degree + 1) {
+      // Fit-point-only splines pass through their fit points; use them as the polyline
+      return spline.closed && fitPoints.length > 2 ? [...fitPoints, fitPoints[0]] : [...fitPoints];
+    }
+
+    const knots = spline.knots.length === controlPoints.length + degree + 1
+      ? spline.knots
+      : this.createClampedKnots(controlPoints.length, degree);
+    const weights = spline.weights.length === controlPoints.length
+      ? spline.weights
+      : controlPoints.map(() => 1);
+
+    const tStart = knots[degree];
+    const tEnd = knots[knots.length - degree - 1];
+    const evaluate = (t: number) => this.evaluateNurbs(t, degree, controlPoints, knots, weights);
+
+    // Start with one sample per knot span, then subdivide until within tolerance
+    const parameters = new Set<number>([tStart, tEnd]);
+    knots.forEach(knot => {
+      if (knot > tStart && knot < tEnd) parameters.add(knot);
+    });
+    const sorted = [...parameters].sort((a, b) => a - b);
+    const samples: number[] = [];
+    sorted.forEach((t, i) => {
+      samples.push(t);
+      if (i < sorted.length - 1) {
+        samples.push((t + sorted[i + 1]) / 2);
+      }
+    });
+
+    return this.refineSamples(evaluate, samples);
+  }
+
+  private getArcSteps(radius: number, sweep: number): number {
+    if (radius <= this.tolerance) {
+      return Math.max(1, Math.ceil(sweep / (Math.PI / 2)));
+    }
+
+    const maxStep = 2 * Math.acos(1 - this.tolerance / radius);
+    return Math.max(1, Math.min(720, Math.ceil(sweep / maxStep)));
+  }
+
+  private refineSamples(evaluate: (t: number) => Point, parameters: number[]): Point[] {
+    const points: Point[] = [evaluate(parameters[0])];
+
+    for (let i = 0; i < parameters.length - 1; i++) {
+      this.subdivide(evaluate, parameters[i], parameters[i + 1], points[points.length - 1], evaluate(parameters[i + 1]), points, 0);
+    }
+
+    return points;
+  }
+
+  private subdivide(
+    evaluate: (t: number) => Point,
+    t0: number,
+    t1: number,
+    p0: Point,
+    p1: Point,
+    output: Point[],
+    depth: number
+  ): void {
+    const tMid = (t0 + t1) / 2;
+    const mid = evaluate(tMid);
+
+    if (depth < MAX_SUBDIVISION_DEPTH && this.distanceToChord(mid, p0, p1) > this.tolerance) {
+      this.subdivide(evaluate, t0, tMid, p0, mid, output, depth + 1);
+      this.subdivide(evaluate, tMid, t1, mid, p1, output, depth + 1);
+    } else {
+      output.push(p1);
+    }
+  }
+
+  private evaluateNurbs(t: number, degree: number, controlPoints: Point[], knots: number[], weights: number[]): Point {
+    // De Boor's algorithm in homogeneous coordinates
+    const n = controlPoints.length - 1;
+    let span = degree;
+    while (span < n && t >= knots[span + 1]) span++;
+
+    const d = [];
+    for (let j = 0; j <= degree; j++) {
+      const index = span - degree + j;
+      const w = weights[index];
+      d.push({ x: controlPoints[index].x * w, y: controlPoints[index].y * w, w });
+    }
+
+    for (let r = 1; r <= degree; r++) {
+      for (let j = degree; j >= r; j--) {
+        const i = span - degree + j;
+        const denominator = knots[i + degree - r + 1] - knots[i];
+        const alpha = denominator === 0 ? 0 : (t - knots[i]) / denominator;
+        d[j] = {
+          x: (1 - alpha) * d[j - 1].x + alpha * d[j].x,
+          y: (1 - alpha) * d[j - 1].y + alpha * d[j].y,
+          w: (1 - alpha) * d[j - 1].w + alpha * d[j].w
+        };
+      }
+    }
+
+    const result = d[degree];
+    return { x: result.x / result.w, y: result.y / result.w };
+  }
+
+  private createClampedKnots(controlPointCount: number, degree: number): number[] {
+    const knots: number[] = [];
+    const interior = controlPointCount - degree - 1;
+
+    for (let i = 0; i <= degree; i++) knots.push(0);
+    for (let i = 1; i <= interior; i++) knots.push(i / (interior + 1));
+    for (let i = 0; i <= degree; i++) knots.push(1);
+
+    return knots;
+  }
+
+  private distanceToChord(point: Point, start: Point, end: Point): number {
+    const dx = end.x - start.x;
+    const dy = end.y - start.y;
+    const length = Math.hypot(dx, dy);
+    if (length === 0) return Math.hypot(point.x - start.x, point.y - start.y);
+    return Math.abs(dy * point.x - dx * point.y + end.x * start.y - end.y * start.x) / length;
+  }
+}
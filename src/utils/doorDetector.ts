@@ -0,0 +1,327 @@
+import { Point, Wall, Door, Room } from '../types/cad';
+import { v4 as uuidv4 } from 'uuid';
+
+export interface DoorArc {
+  center: Point;
+  radius: number;
+  start: Point;
+  end: Point;
+  layer?: string;
+}
+
+export interface DoorLine {
+  start: Point;
+  end: Point;
+}
+
+// Geometry that may draw a door: swing arcs and the lines around them, from any layer
+export interface DoorSymbols {
+  arcs: DoorArc[];
+  lines: DoorLine[];
+}
+
+export interface DoorDetectionOptions {
+  minWidth: number; // Narrowest leaf, in mm
+  maxWidth: number; // Widest single leaf, in mm
+  maxSlidingWidth: number; // Widest sliding door opening, in mm
+  sweepTolerance: number; // Degrees a swing arc may differ from a quarter turn
+  jambTolerance: number; // How far beyond the wall face a hinge or leaf tip may sit, in mm
+  leafThickness: number; // Widest a leaf drawn as a thin rectangle can be, in mm
+}
+
+const DEFAULT_DOOR_OPTIONS: DoorDetectionOptions = {
+  minWidth: 500,
+  maxWidth: 1600,
+  maxSlidingWidth: 3000,
+  sweepTolerance: 30,
+  jambTolerance: 150,
+  leafThickness: 80
+};
+
+const DOOR_HEIGHT = 2100;
+
+// Walls within this angle of the opening run along it
+const PARALLEL_TOLERANCE = 10 * Math.PI / 180;
+
+interface HostWall {
+  wall: Wall;
+  hingeJamb: boolean; // The wall stops at the hinge, leaving the opening
+  closedJamb: boolean; // A wall resumes where the closed leaf ends
+}
+
+export class DoorDetector {
+  private options: DoorDetectionOptions;
+
+  constructor(options: Partial<DoorDetectionOptions> = {}) {
+    this.options = { ...DEFAULT_DOOR_OPTIONS, ...options };
+  }
+
+  detect(walls: Wall[], symbols: DoorSymbols): Door[] {
+    const swingDoors = this.mergeDoubleDoors(symbols.arcs
+      .map(arc => this.detectSwingDoor(arc, walls, symbols.lines))
+      .filter((door): door is Door => door !== null));
+    const slidingDoors = this.detectSlidingDoors(walls, symbols.lines, swingDoors);
+
+    console.log(`Detected ${swingDoors.length} swing doors and ${slidingDoors.length} sliding doors from ${symbols.arcs.length} arcs`);
+    return [...swingDoors, ...slidingDoors];
+  }
+
+  // Swing is relative to rooms, so it can only be settled once they are known: a door
+  // swings 'in' when it opens into the building or into the smaller of two rooms
+  // (from a corridor or hall into an office), and 'out' otherwise
+  resolveSwingDirections(doors: Door[], rooms: Room[]): Door[] {
+    return doors.map(door => {
+      if (door.swing === 'sliding' || !door.hingeSide) return door;
+
+      const axis = this.getAxis(door.angle);
+      const normal = door.hingeSide === 'left' ? { x: axis.y, y: -axis.x } : { x: -axis.y, y: axis.x };
+      const reach = door.width / 2;
+      const roomAt = (sign: number) => rooms.find(room => this.pointInPolygon({
+        x: door.position.x + normal.x * reach * sign,
+        y: door.position.y + normal.y * reach * sign
+      }, room.polygon));
+
+      const swingRoom = roomAt(1);
+      const otherRoom = roomAt(-1);
+      if (!swingRoom && !otherRoom) return door;
+      if (!otherRoom) return { ...door, swing: 'in' };
+      if (!swingRoom) return { ...door, swing: 'out' };
+      return { ...door, swing: swingRoom.area <= otherRoom.area ? 'in' : 'out' };
+    });
+  }
+
+  private detectSwingDoor(arc: DoorArc, walls: Wall[], lines: DoorLine[]): Door | null {
+    const { minWidth, maxWidth, sweepTolerance } = this.options;
+    if (arc.radius < minWidth || arc.radius > maxWidth) return null;
+
+    const sweep = this.getAngleBetween(this.subtract(arc.start, arc.center), this.subtract(arc.end, arc.center));
+    if (Math.abs(sweep - 90) > sweepTolerance) return null;
+
+    // The arc runs from the closed leaf, lying across the opening, to the open leaf; either end could be which
+    const candidates = [[arc.start, arc.end], [arc.end, arc.start]].map(([closed, open]) => {
+      const host = this.findHostWall(arc.center, closed, walls);
+      const leaf = this.hasLeaf(arc.center, open, arc.radius, lines);
+      const score = (leaf ? 4 : 0) + (host?.closedJamb ? 2 : 0) + (host?.hingeJamb ? 1 : 0);
+      return { closed, open, host, score };
+    }).filter(candidate => candidate.host !== null);
+
+    // Without a leaf or jamb to tell the ends apart, a door in a corner is ambiguous
+    candidates.sort((a, b) => b.score - a.score);
+    const chosen = candidates[0];
+    if (!chosen || (candidates.length > 1 && candidates[1].score === chosen.score)) return null;
+
+    const { closed, open, host } = chosen;
+    const width = this.getDistance(arc.center, closed);
+    const axis = this.subtract(closed, arc.center);
+    const swingCross = axis.x * (open.y - arc.center.y) - axis.y * (open.x - arc.center.x);
+
+    return {
+      id: uuidv4(),
+      position: { x: (arc.center.x + closed.x) / 2, y: (arc.center.y + closed.y) / 2 },
+      width,
+      height: DOOR_HEIGHT,
+      swing: 'in',
+      angle: Math.atan2(axis.y, axis.x) * 180 / Math.PI,
+      hinge: arc.center,
+      hingeSide: swingCross > 0 ? 'right' : 'left',
+      wallId: host!.wall.id,
+      layer: arc.layer
+    };
+  }
+
+  private findHostWall(hinge: Point, closed: Point, walls: Wall[]): HostWall | null {
+    const width = this.getDistance(hinge, closed);
+    const axis = { x: (closed.x - hinge.x) / width, y: (closed.y - hinge.y) / width };
+    let hingeWall: Wall | null = null;
+    let closedWall: Wall | null = null;
+    let spanningWall: Wall | null = null;
+
+    for (const wall of walls) {
+      const direction = this.getDirection(wall);
+      if (Math.abs(direction.x * axis.y - direction.y * axis.x) > Math.sin(PARALLEL_TOLERANCE)) continue;
+
+      // Door symbols sit on a wall face, so allow half the wall thickness on top of the tolerance
+      const tolerance = wall.thickness / 2 + this.options.jambTolerance;
+      const offset = Math.abs((hinge.x - wall.start.x) * direction.y - (hinge.y - wall.start.y) * direction.x);
+      if (offset > tolerance) continue;
+
+      const along = [wall.start, wall.end].map(point => (point.x - hinge.x) * axis.x + (point.y - hinge.y) * axis.y);
+      const from = Math.min(...along);
+      const to = Math.max(...along);
+
+      if (Math.abs(to) <= tolerance) hingeWall = hingeWall || wall;
+      else if (Math.abs(from - width) <= tolerance) closedWall = closedWall || wall;
+      else if (from <= tolerance && to >= width - tolerance) spanningWall = spanningWall || wall;
+    }
+
+    const wall = hingeWall || spanningWall || closedWall;
+    return wall ? { wall, hingeJamb: hingeWall !== null, closedJamb: closedWall !== null } : null;
+  }
+
+  private hasLeaf(hinge: Point, open: Point, radius: number, lines: DoorLine[]): boolean {
+    // The open leaf is a line, or the long side of a thin rectangle, from the hinge to the arc
+    return lines.some(line =>
+      this.getDistance(line.start, line.end) >= radius * 0.7 &&
+      this.distancePointToSegment(line.start, hinge, open) <= this.options.leafThickness &&
+      this.distancePointToSegment(line.end, hinge, open) <= this.options.leafThickness);
+  }
+
+  private mergeDoubleDoors(doors: Door[]): Door[] {
+    // Two leaves hinged on opposite jambs whose closed tips meet form one double door
+    const merged: Door[] = [];
+    const used = new Set<Door>();
+
+    doors.forEach(door => {
+      if (used.has(door)) return;
+      used.add(door);
+
+      const tip = this.getClosedTip(door);
+      const partner = doors.find(other =>
+        other !== door && !used.has(other) &&
+        this.getDistance(this.getClosedTip(other), tip) <= this.options.jambTolerance &&
+        Math.abs((((other.angle - door.angle) % 360) + 360) % 360 - 180) <= this.options.sweepTolerance / 3);
+
+      if (!partner) {
+        merged.push(door);
+        return;
+      }
+
+      used.add(partner);
+      merged.push({
+        ...door,
+        position: { x: (door.hinge!.x + partner.hinge!.x) / 2, y: (door.hinge!.y + partner.hinge!.y) / 2 },
+        width: this.getDistance(door.hinge!, partner.hinge!),
+        wallId: door.wallId || partner.wallId
+      });
+    });
+
+    return merged;
+  }
+
+  private detectSlidingDoors(walls: Wall[], lines: DoorLine[], swingDoors: Door[]): Door[] {
+    const doors: Door[] = [];
+
+    for (let i = 0; i < walls.length; i++) {
+      for (let j = i + 1; j < walls.length; j++) {
+        const gap = this.findWallGap(walls[i], walls[j]);
+        if (!gap) continue;
+
+        const { start, end } = gap;
+        const width = this.getDistance(start, end);
+        const position = { x: (start.x + end.x) / 2, y: (start.y + end.y) / 2 };
+        if (swingDoors.some(door => this.getDistance(door.position, position) <= width / 2)) continue;
+
+        // Sliding leaves are parallel lines inside the wall band, each covering part of the opening
+        // at its own offset; glazing lines of a window instead span the whole opening
+        const axis = { x: (end.x - start.x) / width, y: (end.y - start.y) / width };
+        const band = Math.max(walls[i].thickness, walls[j].thickness) / 2 + this.options.leafThickness;
+        const leaves = lines.map(line => {
+          const direction = this.getDirection(line);
+          if (Math.abs(direction.x * axis.y - direction.y * axis.x) > Math.sin(PARALLEL_TOLERANCE)) return null;
+
+          const offset = (line.start.x - start.x) * axis.y - (line.start.y - start.y) * axis.x;
+          if (Math.abs(offset) > band) return null;
+
+          const along = [line.start, line.end].map(point => (point.x - start.x) * axis.x + (point.y - start.y) * axis.y);
+          const from = Math.max(0, Math.min(...along));
+          const to = Math.min(width, Math.max(...along));
+          const coverage = (to - from) / width;
+          return coverage >= 0.35 && coverage <= 0.85 ? { from, to, offset } : null;
+        }).filter((leaf): leaf is { from: number; to: number; offset: number } => leaf !== null);
+
+        const offsets = leaves.map(leaf => leaf.offset).sort((a, b) => a - b);
+        const covered = leaves.length > 0 &&
+          Math.min(...leaves.map(leaf => leaf.from)) <= width * 0.05 &&
+          Math.max(...leaves.map(leaf => leaf.to)) >= width * 0.95;
+        if (!covered || offsets[offsets.length - 1] - offsets[0] < 10) continue;
+
+        doors.push({
+          id: uuidv4(),
+          position,
+          width,
+          height: DOOR_HEIGHT,
+          swing: 'sliding',
+          angle: Math.atan2(axis.y, axis.x) * 180 / Math.PI,
+          wallId: walls[i].id
+        });
+      }
+    }
+
+    return doors;
+  }
+
+  private findWallGap(a: Wall, b: Wall): { start: Point; end: Point } | null {
+    // Two collinear walls whose facing ends leave an opening between them
+    const direction = this.getDirection(a);
+    const other = this.getDirection(b);
+    if (Math.abs(direction.x * other.y - direction.y * other.x) > Math.sin(PARALLEL_TOLERANCE)) return null;
+
+    const tolerance = Math.max(a.thickness, b.thickness) / 2;
+    const offset = (point: Point) => Math.abs((point.x - a.start.x) * direction.y - (point.y - a.start.y) * direction.x);
+    if (offset(b.start) > tolerance || offset(b.end) > tolerance) return null;
+
+    const along = (point: Point) => (point.x - a.start.x) * direction.x + (point.y - a.start.y) * direction.y;
+    const aRange = [0, this.getDistance(a.start, a.end)];
+    const bRange = [along(b.start), along(b.end)].sort((p, q) => p - q);
+    const [gapStart, gapEnd] = bRange[0] >= aRange[1] ? [aRange[1], bRange[0]] : bRange[1] <= aRange[0] ? [bRange[1], aRange[0]] : [0, 0];
+
+    const width = gapEnd - gapStart;
+    if (width < this.options.minWidth || width > this.options.maxSlidingWidth) return null;
+
+    return {
+      start: { x: a.start.x + direction.x * gapStart, y: a.start.y + direction.y * gapStart },
+      end: { x: a.start.x + direction.x * gapEnd, y: a.start.y + direction.y * gapEnd }
+    };
+  }
+
+  private getClosedTip(door: Door): Point {
+    if (!door.hinge) return door.position;
+    const axis = this.getAxis(door.angle);
+    return { x: door.hinge.x + axis.x * door.width, y: door.hinge.y + axis.y * door.width };
+  }
+
+  private getAxis(angle: number): Point {
+    const radians = angle * Math.PI / 180;
+    return { x: Math.cos(radians), y: Math.sin(radians) };
+  }
+
+  private getAngleBetween(v1: Point, v2: Point): number {
+    return Math.abs(Math.atan2(v1.x * v2.y - v1.y * v2.x, v1.x * v2.x + v1.y * v2.y)) * 180 / Math.PI;
+  }
+
+  private getDirection(line: { start: Point; end: Point }): Point {
+    const length = this.getDistance(line.start, line.end) || 1;
+    return { x: (line.end.x - line.start.x) / length, y: (line.end.y - line.start.y) / length };
+  }
+
+  private subtract(p1: Point, p2: Point): Point {
+    return { x: p1.x - p2.x, y: p1.y - p2.y };
+  }
+
+  private distancePointToSegment(point: Point, start: Point, end: Point): number {
+    const dx = end.x - start.x;
+    const dy = end.y - start.y;
+    const lengthSquared = dx * dx + dy * dy;
+    const t = lengthSquared === 0
+      ? 0
+      : Math.max(0, Math.min(1, ((point.x - start.x) * dx + (point.y - start.y) * dy) / lengthSquared));
+    return this.getDistance(point, { x: start.x + dx * t, y: start.y + dy * t });
+  }
+
+  private pointInPolygon(point: Point, polygon: Point[]): boolean {
+    let inside = false;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+      if (
+        polygon[i].y > point.y !== polygon[j].y > point.y &&
+        point.x < ((polygon[j].x - polygon[i].x) * (point.y - polygon[i].y)) / (polygon[j].y - polygon[i].y) + polygon[i].x
+      ) {
+        inside = !inside;
+      }
+    }
+    return inside;
+  }
+
+  private getDistance(p1: Point, p2: Point): number {
+    return Math.hypot(p1.x - p2.x, p1.y - p2.y);
+  }
+}
@@ -0,0 +1,92 @@
+import type { LibreDwgEx } from '@mlightcad/libredwg-web';
+
+export interface DWGVersionInfo {
+  code: string; // Version string from the file header, e.g. AC1032
+  release: string;
+  supported: boolean;
+}
+
+// Header version strings; LibreDWG reads R13 and later, earlier releases are experimental at best
+const DWG_VERSIONS: Record<string, { release: string; supported: boolean }> = {
+  'MC0.0': { release: 'R1.0', supported: false },
+  'AC1.2': { release: 'R1.2', supported: false },
+  'AC1.40': { release: 'R1.4', supported: false },
+  'AC1.50': { release: 'R2.0', supported: false },
+  'AC2.10': { release: 'R2.10', supported: false },
+  'AC1001': { release: 'R2.5', supported: false },
+  'AC1002': { release: 'R2.6', supported: false },
+  'AC1003': { release: 'R9', supported: false },
+  'AC1004': { release: 'R10', supported: false },
+  'AC1006': { release: 'R10', supported: false },
+  'AC1009': { release: 'R11/R12', supported: false },
+  'AC1012': { release: 'R13', supported: true },
+  'AC1014': { release: 'R14', supported: true },
+  'AC1015': { release: '2000', supported: true },
+  'AC1018': { release: '2004', supported: true },
+  'AC1021': { release: '2007', supported: true },
+  'AC1024': { release: '2010', supported: true },
+  'AC1027': { release: '2013', supported: true },
+  'AC1032': { release: '2018', supported: true }
+};
+
+export class DWGImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DWGImportError';
+  }
+}
+
+export class DWGConverter {
+  private static modulePromise: Promise<LibreDwgEx> | null = null;
+
+  detectVersion(data: ArrayBuffer): DWGVersionInfo {
+    const header = new TextDecoder('ascii').decode(new Uint8Array(data, 0, Math.min(6, data.byteLength)));
+    const code = Object.keys(DWG_VERSIONS).find(key => header.startsWith(key));
+
+    if (code) {
+      return { code, ...DWG_VERSIONS[code] };
+    }
+    if (!/^AC\d{4}$/.test(header)) {
+      throw new DWGImportError('The file is not a DWG drawing (missing AutoCAD version header)');
+    }
+    return { code: header, release: 'newer than 2018', supported: false };
+  }
+
+  async convertToDXF(data: ArrayBuffer): Promise<ArrayBuffer> {
+    const version = this.detectVersion(data);
+    if (!version.supported) {
+      throw new DWGImportError(
+        `DWG version ${version.code} (AutoCAD ${version.release}) is not supported. ` +
+        'Save the drawing as AutoCAD 2000–2018 DWG or export it to DXF.'
+      );
+    }
+
+    const libredwg = await this.loadModule();
+    let dxf: Uint8Array | null;
+    try {
+      dxf = libredwg.dwg_write_dxf(data);
+    } catch (error) {
+      // Emscripten reports an abort or a non-zero exit() by throwing
+      console.warn('LibreDWG failed while converting the drawing:', error);
+      dxf = null;
+    }
+    if (!dxf) {
+      throw new DWGImportError(`LibreDWG could not convert this AutoCAD ${version.release} drawing`);
+    }
+    return dxf.slice().buffer;
+  }
+
+  private loadModule(): Promise<LibreDwgEx> {
+    // LibreDWG compiled to WebAssembly ships with the app; the module is large, so it is fetched on first use and then shared
+    if (!DWGConverter.modulePromise) {
+      DWGConverter.modulePromise = import('@mlightcad/libredwg-web')
+        .then(({ LibreDwg }) => LibreDwg.create())
+        .catch(error => {
+          DWGConverter.modulePromise = null;
+          console.error('Failed to load the DWG converter:', error);
+          throw new DWGImportError('The DWG converter could not be loaded; export the drawing to DXF instead.');
+        });
+    }
+    return DWGConverter.modulePromise;
+  }
+}
@@ -0,0 +1,151 @@
+import { DXFGroup } from './dxfParser';
+
+const SENTINEL = 'AutoCAD Binary DXF\r\n\u001a\u0000';
+
+type ValueType = 'string' | 'double' | 'int16' | 'int32' | 'int64' | 'boolean' | 'binary';
+
+export class DXFBinaryReader {
+  private view!: DataView;
+  private bytes!: Uint8Array;
+  private offset = 0;
+  private decoder = new TextDecoder('utf-8', { fatal: true });
+  private fallbackDecoder = new TextDecoder('windows-1252');
+
+  static isBinary(data: ArrayBuffer): boolean {
+    if (data.byteLength < SENTINEL.length) return false;
+
+    const header = new Uint8Array(data, 0, SENTINEL.length);
+    return [...SENTINEL].every((char, index) => header[index] === char.charCodeAt(0));
+  }
+
+  read(data: ArrayBuffer): DXFGroup[] {
+    if (!DXFBinaryReader.isBinary(data)) {
+      throw new Error('Not a binary DXF file');
+    }
+
+    this.view = new DataView(data);
+    this.bytes = new Uint8Array(data);
+    this.offset = SENTINEL.length;
+
+    // R13 and later write 2-byte group codes; R12 writes 1 byte with 255 escaping larger codes.
+    // The first group is always 0/SECTION, so a zero second byte means 2-byte codes.
+    const wideCodes = this.bytes[this.offset + 1] === 0;
+    const groups: DXFGroup[] = [];
+
+    while (this.offset < this.bytes.length) {
+      const code = this.readCode(wideCodes);
+      const value = this.readValue(this.getValueType(code));
+      groups.push({ code, value });
+
+      if (code === 0 && value === 'EOF') break;
+    }
+
+    return groups;
+  }
+
+  private readCode(wideCodes: boolean): number {
+    if (wideCodes) {
+      this.ensureAvailable(2);
+      const code = this.view.getInt16(this.offset, true);
+      this.offset += 2;
+      return code;
+    }
+
+    this.ensureAvailable(1);
+    const code = this.bytes[this.offset++];
+    if (code !== 255) return code;
+
+    this.ensureAvailable(2);
+    const extended = this.view.getInt16(this.offset, true);
+    this.offset += 2;
+    return extended;
+  }
+
+  private readValue(type: ValueType): string {
+    switch (type) {
+      case 'double': {
+        this.ensureAvailable(8);
+        const value = this.view.getFloat64(this.offset, true);
+        this.offset += 8;
+        return String(value);
+      }
+      case 'int16': {
+        this.ensureAvailable(2);
+        const value = this.view.getInt16(this.offset, true);
+        this.offset += 2;
+        return String(value);
+      }
+      case 'int32': {
+        this.ensureAvailable(4);
+        const value = this.view.getInt32(this.offset, true);
+        this.offset += 4;
+        return String(value);
+      }
+      case 'int64': {
+        this.ensureAvailable(8);
+        const value = this.view.getBigInt64(this.offset, true);
+        this.offset += 8;
+        return value.toString();
+      }
+      case 'boolean':
+        this.ensureAvailable(1);
+        return String(this.bytes[this.offset++]);
+      case 'binary': {
+        // Length-prefixed chunk, rendered as hex like the ASCII format
+        this.ensureAvailable(1);
+        const length = this.bytes[this.offset++];
+        this.ensureAvailable(length);
+        const chunk = this.bytes.subarray(this.offset, this.offset + length);
+        this.offset += length;
+        return Array.from(chunk, byte => byte.toString(16).padStart(2, '0')).join('').toUpperCase();
+      }
+      default: {
+        const end = this.bytes.indexOf(0, this.offset);
+        if (end === -1) {
+          throw new Error(`Unterminated string in binary DXF at byte ${this.offset}`);
+        }
+        const value = this.decodeString(this.bytes.subarray(this.offset, end));
+        this.offset = end + 1;
+        return value;
+      }
+    }
+  }
+
+  private decodeString(bytes: Uint8Array): string {
+    // AutoCAD 2007+ writes UTF-8; older releases use the drawing code page, most often Windows-1252
+    try {
+      return this.decoder.decode(bytes);
+    } catch {
+      return this.fallbackDecoder.decode(bytes);
+    }
+  }
+
+  private getValueType(code: number): ValueType {
+    if (code >= 10 && code <= 59) return 'double';
+    if (code >= 60 && code <= 79) return 'int16';
+    if (code >= 90 && code <= 99) return 'int32';
+    if (code >= 110 && code <= 149) return 'double';
+    if (code >= 160 && code <= 169) return 'int64';
+    if (code >= 170 && code <= 179) return 'int16';
+    if (code >= 210 && code <= 239) return 'double';
+    if (code >= 270 && code <= 289) return 'int16';
+    if (code >= 290 && code <= 299) return 'boolean';
+    if (code >= 310 && code <= 319) return 'binary';
+    if (code >= 370 && code <= 389) return 'int16';
+    if (code >= 400 && code <= 409) return 'int16';
+    if (code >= 420 && code <= 429) return 'int32';
+    if (code >= 440 && code <= 459) return 'int32';
+    if (code >= 460 && code <= 469) return 'double';
+    if (code === 1004) return 'binary';
+    if (code >= 1010 && code <= 1059) return 'double';
+    if (code >= 1060 && code <= 1070) return 'int16';
+    if (code === 1071) return 'int32';
+    return 'string';
+  }
+
+  private ensureAvailable(length: number): void {
+    if (this.offset + length > this.bytes.length) {
+      throw new Error(`Truncated binary DXF at byte ${this.offset}`);
+    }
+  }
+}
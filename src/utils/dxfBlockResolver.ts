@@ -0,0 +1,383 @@
+import { Point } from '../types/cad';
+import { DXFBlock, DXFEntity, DXFHatchEdge } from './dxfParser';
+import { ACI_BYBLOCK } from './colorClassifier';
+
+// Affine transform [a, b, c, d, e, f]: x' = a·x + c·y + e, y' = b·x + d·y + f
+type Matrix = [number, number, number, number, number, number];
+
+interface Vector3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+const MAX_NESTING_DEPTH = 16;
+
+// Entities whose coordinates are given in their Object Coordinate System; lines, ellipses, splines and MTEXT use WCS
+const OCS_ENTITIES = new Set(['ARC', 'CIRCLE', 'LWPOLYLINE', 'POLYLINE', 'INSERT', 'HATCH', 'SOLID', 'TRACE', 'TEXT', 'ATTRIB', 'ATTDEF']);
+
+// 3D polylines and meshes (POLYLINE group 70) carry WCS vertices
+const POLYLINE_3D_FLAGS = 8 | 16 | 64;
+
+// Below this the Arbitrary Axis Algorithm derives the OCS x-axis from the world y-axis
+const ARBITRARY_AXIS_LIMIT = 1 / 64;
+
+export class DXFBlockResolver {
+  constructor(private blocks: Record<string, DXFBlock>) {}
+
+  // Scale converts model space to the output unit, e.g. metres to millimetres
+  resolve(entities: DXFEntity[], scale: number = 1): DXFEntity[] {
+    const resolved: DXFEntity[] = [];
+    const matrix: Matrix = scale === 1 ? IDENTITY : [scale, 0, 0, scale, 0, 0];
+
+    entities.forEach(entity => {
+      this.resolveEntity(entity, matrix, null, undefined, [], resolved);
+    });
+
+    return resolved;
+  }
+
+  private resolveEntity(
+    entity: DXFEntity,
+    matrix: Matrix,
+    parentInsert: DXFEntity | null,
+    blockName: string | undefined,
+    blockStack: string[],
+    output: DXFEntity[]
+  ): void {
+    // OCS coordinates are brought into the block's own WCS first, so mirrored blocks land the right way round
+    const ocsMatrix = this.getOCSMatrix(entity);
+    const entityMatrix = ocsMatrix ? this.multiplyMatrices(matrix, ocsMatrix) : matrix;
+    const transformed = entityMatrix === IDENTITY ? entity : this.transformEntity(entity, entityMatrix);
+    if (ocsMatrix) {
+      delete transformed.properties.extrusionX;
+      delete transformed.properties.extrusionY;
+      delete transformed.properties.extrusionZ;
+    }
+
+    // Geometry on layer 0 takes the layer of the INSERT that places it
+    if (parentInsert && entity.layer === '0') {
+      transformed.layer = parentInsert.layer;
+    }
+    // BYBLOCK colour likewise comes from the INSERT
+    if (parentInsert && entity.properties.color === ACI_BYBLOCK) {
+      transformed.properties.color = parentInsert.properties.color;
+      transformed.properties.trueColor = parentInsert.properties.trueColor;
+    }
+    // Block contents sit in the space and layout of the INSERT
+    if (parentInsert) {
+      transformed.properties.paperSpace = parentInsert.properties.paperSpace;
+      transformed.properties.layout = parentInsert.properties.layout;
+    }
+    if (blockName !== undefined) {
+      transformed.block = blockName;
+    }
+
+    if (entity.type !== 'INSERT') {
+      output.push(transformed);
+      return;
+    }
+
+    const block = this.blocks[entity.properties.blockName];
+    if (!block) {
+      output.push(transformed);
+      return;
+    }
+    if (blockStack.length >= MAX_NESTING_DEPTH || blockStack.includes(block.name)) {
+      console.warn(`Skipping recursive or too deeply nested block reference: ${block.name}`);
+      return;
+    }
+
+    this.getInsertMatrices(entity, block).forEach(insertMatrix => {
+      const instanceMatrix = this.multiplyMatrices(entityMatrix, insertMatrix);
+
+      // Keep one INSERT per array instance so block-based doors and fixtures can still be recognised
+      const instance = { ...transformed, properties: { ...transformed.properties } };
+      const origin = this.applyMatrix(instanceMatrix, block.basePoint);
+      instance.properties.x1 = origin.x;
+      instance.properties.y1 = origin.y;
+      output.push(instance);
+
+      block.entities.forEach(child => {
+        this.resolveEntity(child, instanceMatrix, instance, block.name, [...blockStack, block.name], output);
+      });
+    });
+  }
+
+  private getOCSMatrix(entity: DXFEntity): Matrix | null {
+    if (!OCS_ENTITIES.has(entity.type)) return null;
+    if (entity.type === 'POLYLINE' && ((entity.properties.flags || 0) & POLYLINE_3D_FLAGS)) return null;
+
+    const { extrusionX = 0, extrusionY = 0, extrusionZ = 1 } = entity.properties;
+    const length = Math.hypot(extrusionX, extrusionY, extrusionZ);
+    const elevation = entity.properties.elevation ?? entity.properties.z1 ?? 0;
+    if (length === 0) return null;
+    const normal = { x: extrusionX / length, y: extrusionY / length, z: extrusionZ / length };
+    if (normal.x === 0 && normal.y === 0 && normal.z > 0) return null;
+
+    // Arbitrary Axis Algorithm: Ax = (Wy or Wz) × N, Ay = N × Ax
+    const world = Math.abs(normal.x) < ARBITRARY_AXIS_LIMIT && Math.abs(normal.y) < ARBITRARY_AXIS_LIMIT
+      ? { x: 0, y: 1, z: 0 }
+      : { x: 0, y: 0, z: 1 };
+    const xAxis = this.normalize(this.cross(world, normal));
+    const yAxis = this.normalize(this.cross(normal, xAxis));
+
+    // The plan is the WCS x-y projection; elevation only shifts it when the OCS is tilted
+    return [xAxis.x, xAxis.y, yAxis.x, yAxis.y, elevation * normal.x, elevation * normal.y];
+  }
+
+  private cross(a: Vector3, b: Vector3): Vector3 {
+    return { x: a.y * b.z - a.z * b.y, y: a.z * b.x - a.x * b.z, z: a.x * b.y - a.y * b.x };
+  }
+
+  private normalize(vector: Vector3): Vector3 {
+    const length = Math.hypot(vector.x, vector.y, vector.z);
+    return { x: vector.x / length, y: vector.y / length, z: vector.z / length };
+  }
+
+  private getInsertMatrices(insert: DXFEntity, block: DXFBlock): Matrix[] {
+    const properties = insert.properties;
+    const scaleX = properties.scaleX ?? 1;
+    const scaleY = properties.scaleY ?? 1;
+    const rotation = (properties.rotation || 0) * Math.PI / 180;
+    const columns = Math.max(1, properties.columnCount || 1);
+    const rows = Math.max(1, properties.rowCount || 1);
+    const cos = Math.cos(rotation);
+    const sin = Math.sin(rotation);
+    const matrices: Matrix[] = [];
+
+    // Insertion point · rotation · array offset · scale · (−base point)
+    for (let row = 0; row < rows; row++) {
+      for (let column = 0; column < columns; column++) {
+        const offsetX = column * (properties.columnSpacing || 0);
+        const offsetY = row * (properties.rowSpacing || 0);
+        const placement: Matrix = [
+          cos, sin, -sin, cos,
+          (properties.x1 || 0) + cos * offsetX - sin * offsetY,
+          (properties.y1 || 0) + sin * offsetX + cos * offsetY
+        ];
+        const scale: Matrix = [scaleX, 0, 0, scaleY, -block.basePoint.x * scaleX, -block.basePoint.y * scaleY];
+        matrices.push(this.multiplyMatrices(placement, scale));
+      }
+    }
+
+    return matrices;
+  }
+
+  private transformEntity(entity: DXFEntity, m: Matrix): DXFEntity {
+    const properties = { ...entity.properties };
+    const transformed: DXFEntity = { ...entity, properties };
+    const determinant = m[0] * m[3] - m[1] * m[2];
+    const scale = Math.sqrt(Math.abs(determinant));
+    const isSimilarity = Math.abs(m[0] - Math.sign(determinant) * m[3]) < 1e-9 &&
+      Math.abs(m[1] + Math.sign(determinant) * m[2]) < 1e-9;
+
+    if (properties.thickness !== undefined) {
+      properties.thickness *= scale;
+    }
+    if (properties.x1 !== undefined && properties.y1 !== undefined) {
+      const point = this.applyMatrix(m, { x: properties.x1, y: properties.y1 });
+      properties.x1 = point.x;
+      properties.y1 = point.y;
+    }
+
+    switch (entity.type) {
+      case 'LINE':
+        if (properties.x2 !== undefined && properties.y2 !== undefined) {
+          const end = this.applyMatrix(m, { x: properties.x2, y: properties.y2 });
+          properties.x2 = end.x;
+          properties.y2 = end.y;
+        }
+        break;
+      case 'LWPOLYLINE':
+      case 'POLYLINE':
+        // Mirroring reverses arc direction; non-uniform scale of bulged segments is approximated
+        transformed.vertices = entity.vertices?.map(vertex => ({
+          ...this.applyMatrix(m, vertex),
+          bulge: determinant < 0 ? -vertex.bulge : vertex.bulge
+        }));
+        break;
+      case 'CIRCLE':
+      case 'ARC':
+        if (isSimilarity) {
+          properties.radius = (properties.radius || 0) * scale;
+          if (entity.type === 'ARC') {
+            const theta = Math.atan2(m[1], m[0]) * 180 / Math.PI;
+            const start = properties.startAngle || 0;
+            const end = properties.endAngle ?? 360;
+            properties.startAngle = determinant < 0 ? theta - end : theta + start;
+            properties.endAngle = determinant < 0 ? theta - start : theta + end;
+          }
+        } else {
+          this.convertArcToEllipse(transformed, entity, m);
+        }
+        break;
+      case 'ELLIPSE': {
+        const ratio = properties.axisRatio || 1;
+        const major = { x: properties.majorAxisX || 0, y: properties.majorAxisY || 0 };
+        const minor = {
+          x: properties.minorAxisX ?? -major.y * ratio,
+          y: properties.minorAxisY ?? major.x * ratio
+        };
+        this.setEllipseAxes(properties, this.transformVector(m, major), this.transformVector(m, minor));
+        break;
+      }
+      case 'SPLINE':
+        properties.controlPoints = (properties.controlPoints || []).map((point: Point) => this.applyMatrix(m, point));
+        properties.fitPoints = (properties.fitPoints || []).map((point: Point) => this.applyMatrix(m, point));
+        break;
+      case 'TEXT':
+      case 'MTEXT':
+      case 'ATTRIB':
+      case 'ATTDEF':
+        if (properties.x2 !== undefined && properties.y2 !== undefined) {
+          const alignment = this.applyMatrix(m, { x: properties.x2, y: properties.y2 });
+          properties.x2 = alignment.x;
+          properties.y2 = alignment.y;
+        }
+        if (properties.directionX !== undefined) {
+          const direction = this.transformVector(m, { x: properties.directionX, y: properties.directionY || 0 });
+          properties.directionX = direction.x;
+          properties.directionY = direction.y;
+        }
+        if (properties.height !== undefined) {
+          properties.height *= scale;
+        }
+        properties.rotation = (properties.rotation || 0) + Math.atan2(m[1], m[0]) * 180 / Math.PI;
+        break;
+      case 'HATCH':
+        transformed.boundaries = entity.boundaries?.map(boundary => ({
+          ...boundary,
+          vertices: boundary.vertices?.map(vertex => ({
+            ...this.applyMatrix(m, vertex),
+            bulge: determinant < 0 ? -vertex.bulge : vertex.bulge
+          })),
+          edges: boundary.edges?.map(edge => this.transformHatchEdge(edge, m, determinant, isSimilarity))
+        }));
+        break;
+      case 'INSERT':
+        properties.rotation = (properties.rotation || 0) + Math.atan2(m[1], m[0]) * 180 / Math.PI;
+        properties.scaleX = (properties.scaleX ?? 1) * Math.hypot(m[0], m[1]);
+        properties.scaleY = (properties.scaleY ?? 1) * Math.hypot(m[2], m[3]) * Math.sign(determinant);
+        break;
+      default:
+        if (properties.x2 !== undefined && properties.y2 !== undefined) {
+          const second = this.applyMatrix(m, { x: properties.x2, y: properties.y2 });
+          properties.x2 = second.x;
+          properties.y2 = second.y;
+        }
+        if (properties.radius !== undefined) {
+          properties.radius *= scale;
+        }
+        // Third and fourth corners of SOLID and TRACE
+        if (properties.x3 !== undefined && properties.y3 !== undefined) {
+          const third = this.applyMatrix(m, { x: properties.x3, y: properties.y3 });
+          properties.x3 = third.x;
+          properties.y3 = third.y;
+        }
+        if (properties.x4 !== undefined && properties.y4 !== undefined) {
+          const fourth = this.applyMatrix(m, { x: properties.x4, y: properties.y4 });
+          properties.x4 = fourth.x;
+          properties.y4 = fourth.y;
+        }
+    }
+
+    return transformed;
+  }
+
+  private transformHatchEdge(edge: DXFHatchEdge, m: Matrix, determinant: number, isSimilarity: boolean): DXFHatchEdge {
+    switch (edge.type) {
+      case 'line':
+        return { ...edge, start: this.applyMatrix(m, edge.start), end: this.applyMatrix(m, edge.end) };
+      case 'arc': {
+        const center = this.applyMatrix(m, edge.center);
+        if (!isSimilarity) {
+          // Same as ARC entities: the arc becomes an elliptic arc with its angles as parameters
+          return {
+            type: 'ellipse',
+            center,
+            majorAxis: this.transformVector(m, { x: edge.radius, y: 0 }),
+            minorAxis: this.transformVector(m, { x: 0, y: edge.radius }),
+            startParameter: edge.startAngle * Math.PI / 180,
+            endParameter: edge.endAngle * Math.PI / 180,
+            clockwise: edge.clockwise
+          };
+        }
+        // Mirroring swaps the ends of the counter-clockwise span and the direction it is walked in
+        const theta = Math.atan2(m[1], m[0]) * 180 / Math.PI;
+        return {
+          ...edge,
+          center,
+          radius: edge.radius * Math.sqrt(Math.abs(determinant)),
+          startAngle: determinant < 0 ? theta - edge.endAngle : theta + edge.startAngle,
+          endAngle: determinant < 0 ? theta - edge.startAngle : theta + edge.endAngle,
+          clockwise: determinant < 0 ? !edge.clockwise : edge.clockwise
+        };
+      }
+      case 'ellipse':
+        return {
+          ...edge,
+          center: this.applyMatrix(m, edge.center),
+          majorAxis: this.transformVector(m, edge.majorAxis),
+          minorAxis: this.transformVector(m, edge.minorAxis)
+        };
+      case 'spline':
+        return {
+          ...edge,
+          controlPoints: edge.controlPoints.map(point => this.applyMatrix(m, point)),
+          fitPoints: edge.fitPoints.map(point => this.applyMatrix(m, point))
+        };
+    }
+  }
+
+  private convertArcToEllipse(transformed: DXFEntity, source: DXFEntity, m: Matrix): void {
+    // A circle under non-uniform scale is an ellipse; angles carry over as ellipse parameters
+    const radius = source.properties.radius || 0;
+    const properties = transformed.properties;
+
+    transformed.type = 'ELLIPSE';
+    this.setEllipseAxes(
+      properties,
+      this.transformVector(m, { x: radius, y: 0 }),
+      this.transformVector(m, { x: 0, y: radius })
+    );
+    properties.startParameter = source.type === 'ARC' ? (source.properties.startAngle || 0) * Math.PI / 180 : 0;
+    properties.endParameter = source.type === 'ARC' ? (source.properties.endAngle ?? 360) * Math.PI / 180 : 2 * Math.PI;
+    delete properties.radius;
+    delete properties.startAngle;
+    delete properties.endAngle;
+  }
+
+  private setEllipseAxes(properties: Record<string, any>, major: Point, minor: Point): void {
+    properties.majorAxisX = major.x;
+    properties.majorAxisY = major.y;
+    properties.minorAxisX = minor.x;
+    properties.minorAxisY = minor.y;
+  }
+
+  private multiplyMatrices(m1: Matrix, m2: Matrix): Matrix {
+    return [
+      m1[0] * m2[0] + m1[2] * m2[1],
+      m1[1] * m2[0] + m1[3] * m2[1],
+      m1[0] * m2[2] + m1[2] * m2[3],
+      m1[1] * m2[2] + m1[3] * m2[3],
+      m1[0] * m2[4] + m1[2] * m2[5] + m1[4],
+      m1[1] * m2[4] + m1[3] * m2[5] + m1[5]
+    ];
+  }
+
+  private applyMatrix(m: Matrix, point: Point): Point {
+    return {
+      x: m[0] * point.x + m[2] * point.y + m[4],
+      y: m[1] * point.x + m[3] * point.y + m[5]
+    };
+  }
+
+  private transformVector(m: Matrix, vector: Point): Point {
+    return {
+      x: m[0] * vector.x + m[2] * vector.y,
+      y: m[1] * vector.x + m[3] * vector.y
+    };
+  }
+}
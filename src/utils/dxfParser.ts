@@ -0,0 +1,750 @@
+import { Layer, Point } from '../types/cad';
+
+export interface DXFGroup {
+  code: number;
+  value: string;
+}
+
+export interface DXFVertex {
+  x: number;
+  y: number;
+  bulge: number; // tan(θ/4) of the arc to the next vertex, 0 for a straight segment
+}
+
+// Arcs and elliptic arcs span counter-clockwise from start to end; clockwise edges are walked from end to start
+export type DXFHatchEdge =
+  | { type: 'line'; start: Point; end: Point }
+  | { type: 'arc'; center: Point; radius: number; startAngle: number; endAngle: number; clockwise: boolean }
+  | { type: 'ellipse'; center: Point; majorAxis: Point; minorAxis: Point; startParameter: number; endParameter: number; clockwise: boolean }
+  | { type: 'spline'; degree: number; controlPoints: Point[]; knots: number[]; weights: number[]; fitPoints: Point[] };
+
+export interface DXFHatchBoundary {
+  outer: boolean; // Marked external or outermost rather than an island
+  vertices?: DXFVertex[]; // Polyline path
+  edges?: DXFHatchEdge[]; // Edge path, in drawing order
+}
+
+export interface DXFEntity {
+  type: string;
+  layer: string;
+  properties: Record<string, any>;
+  vertices?: DXFVertex[];
+  closed?: boolean;
+  boundaries?: DXFHatchBoundary[]; // HATCH boundary paths
+  block?: string; // Name of the block definition the entity was expanded from
+}
+
+export interface DXFBlock {
+  name: string;
+  layer: string;
+  basePoint: { x: number; y: number };
+  entities: DXFEntity[];
+}
+
+export interface DXFDocument {
+  header: Record<string, string>; // HEADER variables such as $INSUNITS, first value group only
+  entities: DXFEntity[];
+  blocks: Record<string, DXFBlock>;
+  layers: Layer[];
+}
+
+// POLYLINE (group 70) flags
+const POLYLINE_CLOSED = 1;
+const POLYLINE_3D_MESH = 16;
+const POLYLINE_POLYFACE_MESH = 64;
+
+// VERTEX (group 70) flags
+const VERTEX_SPLINE_FRAME = 16;
+const VERTEX_POLYFACE_FACE = 128;
+
+// LAYER table (group 70) flags
+const LAYER_FROZEN = 1;
+
+// SPLINE (group 70) flags
+const SPLINE_CLOSED = 1;
+
+// HATCH boundary path (group 92) flags
+const HATCH_PATH_EXTERNAL = 1;
+const HATCH_PATH_POLYLINE = 2;
+const HATCH_PATH_TEXTBOX = 8;
+const HATCH_PATH_OUTERMOST = 16;
+
+// HATCH edge types (group 72)
+const HATCH_EDGE_LINE = 1;
+const HATCH_EDGE_ARC = 2;
+const HATCH_EDGE_ELLIPSE = 3;
+const HATCH_EDGE_SPLINE = 4;
+
+// Groups HATCH shares with every entity; the rest is positional and decoded once the entity ends
+const COMMON_ENTITY_GROUPS = new Set([8, 62, 420, 67, 410, 210, 220, 230]);
+
+const TEXT_ENTITIES = new Set(['TEXT', 'MTEXT', 'ATTRIB', 'ATTDEF']);
+
+interface DXFParseState {
+  document: DXFDocument;
+  section: string;
+  awaitingSectionName: boolean;
+  headerVariable: string;
+  currentEntity: DXFEntity | null;
+  currentPolyline: DXFEntity | null;
+  currentBlock: DXFBlock | null;
+  hatchGroups: DXFGroup[];
+  entityCount: number;
+  // ASCII line pairing
+  lineNumber: number;
+  linesStarted: boolean;
+  codeLine: string | null;
+  linesStopped: boolean;
+}
+
+export class DXFParser {
+  private state: DXFParseState = this.createState();
+
+  parse(lines: string[]): DXFDocument {
+    this.begin();
+    lines.forEach(line => this.pushLine(line));
+    return this.finish();
+  }
+
+  // Binary DXF is decoded into the same group stream, so both formats share one parser
+  parseGroups(groups: DXFGroup[]): DXFDocument {
+    this.begin();
+    groups.forEach(group => this.pushGroup(group));
+    return this.finish();
+  }
+
+  // Incremental parsing: begin(), then lines or groups as they arrive, then finish()
+  begin(): void {
+    this.state = this.createState();
+  }
+
+  get entityCount(): number {
+    return this.state.entityCount;
+  }
+
+  // ASCII DXF alternates a group code line and a value line
+  pushLine(line: string): void {
+    const state = this.state;
+    state.lineNumber++;
+    if (state.linesStopped) return;
+
+    if (state.codeLine === null) {
+      // Skip any leading blank lines before the first group code
+      if (!state.linesStarted && line.trim() === '') return;
+      state.linesStarted = true;
+      state.codeLine = line;
+      return;
+    }
+
+    const code = parseInt(state.codeLine.trim(), 10);
+    if (isNaN(code)) {
+      console.warn(`Invalid DXF group code "${state.codeLine.trim()}" at line ${state.lineNumber - 1}`);
+      state.linesStopped = true;
+      return;
+    }
+    state.codeLine = null;
+    this.pushGroup({ code, value: line.trim() });
+  }
+
+  pushGroup({ code, value }: DXFGroup): void {
+    const state = this.state;
+
+    if (state.awaitingSectionName) {
+      state.awaitingSectionName = false;
+      if (code === 2) {
+        state.section = value;
+        return;
+      }
+    }
+
+    if (code === 0) {
+      this.finishEntity();
+
+      if (value === 'SECTION') {
+        state.section = '';
+        state.awaitingSectionName = true;
+        return;
+      }
+      if (value === 'ENDSEC' || value === 'EOF') {
+        state.section = '';
+        state.currentPolyline = null;
+        state.currentBlock = null;
+        return;
+      }
+      if (state.section === 'TABLES') {
+        // Only LAYER table records are needed; TABLE/ENDTAB and other tables are skipped
+        state.currentEntity = value === 'LAYER' ? this.createEntity(value) : null;
+        return;
+      }
+      if (state.section !== 'ENTITIES' && state.section !== 'BLOCKS') return;
+
+      state.currentEntity = this.createEntity(value);
+      if (value === 'POLYLINE') {
+        state.currentPolyline = state.currentEntity;
+      } else if (value !== 'VERTEX' && value !== 'SEQEND') {
+        state.currentPolyline = null;
+      }
+      return;
+    }
+
+    if (state.section === 'HEADER') {
+      if (code === 9) {
+        state.headerVariable = value;
+      } else if (state.headerVariable && !(state.headerVariable in state.document.header)) {
+        state.document.header[state.headerVariable] = value;
+      }
+      return;
+    }
+
+    if (state.currentEntity && state.section === 'TABLES') {
+      this.applyLayerGroup(state.currentEntity, code, value);
+    } else if (state.currentEntity) {
+      this.applyGroup(state.currentEntity, code, value);
+    }
+  }
+
+  finish(): DXFDocument {
+    this.finishEntity();
+    const document = this.state.document;
+    this.state = this.createState();
+    return document;
+  }
+
+  private createState(): DXFParseState {
+    return {
+      document: { header: {}, entities: [], blocks: {}, layers: [] },
+      section: '',
+      awaitingSectionName: false,
+      headerVariable: '',
+      currentEntity: null,
+      currentPolyline: null,
+      currentBlock: null,
+      hatchGroups: [],
+      entityCount: 0,
+      lineNumber: 0,
+      linesStarted: false,
+      codeLine: null,
+      linesStopped: false
+    };
+  }
+
+  private finishEntity(): void {
+    const state = this.state;
+    const entity = state.currentEntity;
+    if (!entity) return;
+
+    if (state.section === 'TABLES') {
+      state.document.layers.push(this.createLayer(entity));
+    } else if (entity.type === 'BLOCK') {
+      state.currentBlock = {
+        name: entity.properties.blockName || '',
+        layer: entity.layer,
+        basePoint: { x: entity.properties.x1 || 0, y: entity.properties.y1 || 0 },
+        entities: []
+      };
+      state.document.blocks[state.currentBlock.name] = state.currentBlock;
+    } else if (entity.type === 'ENDBLK') {
+      state.currentBlock = null;
+    } else if (entity.type === 'VERTEX' && state.currentPolyline) {
+      this.appendPolylineVertex(state.currentPolyline, entity);
+    } else if (entity.type === 'SEQEND') {
+      state.currentPolyline = null;
+    } else if (entity.type !== 'VERTEX') {
+      if (entity.type === 'HATCH') {
+        this.decodeHatch(entity, state.hatchGroups);
+        state.hatchGroups = [];
+      }
+      (state.currentBlock ? state.currentBlock.entities : state.document.entities).push(entity);
+      state.entityCount++;
+    }
+    state.currentEntity = null;
+  }
+
+  private createEntity(type: string): DXFEntity {
+    const entity: DXFEntity = {
+      type,
+      properties: {},
+      layer: 'UNKNOWN'
+    };
+
+    if (type === 'LWPOLYLINE' || type === 'POLYLINE') {
+      entity.vertices = [];
+      entity.closed = false;
+    }
+
+    return entity;
+  }
+
+  private applyGroup(entity: DXFEntity, code: number, value: string): void {
+    if (entity.type === 'HATCH' && !COMMON_ENTITY_GROUPS.has(code)) {
+      this.state.hatchGroups.push({ code, value });
+      return;
+    }
+    if (entity.type === 'LWPOLYLINE' && this.applyLightweightPolylineGroup(entity, code, value)) {
+      return;
+    }
+    if (entity.type === 'ELLIPSE' && this.applyEllipseGroup(entity, code, value)) {
+      return;
+    }
+    if (entity.type === 'SPLINE' && this.applySplineGroup(entity, code, value)) {
+      return;
+    }
+    if (entity.type === 'INSERT' && this.applyInsertGroup(entity, code, value)) {
+      return;
+    }
+    if (entity.type === 'DIMENSION' && this.applyDimensionGroup(entity, code, value)) {
+      return;
+    }
+    if (TEXT_ENTITIES.has(entity.type) && this.applyTextGroup(entity, code, value)) {
+      return;
+    }
+
+    switch (code) {
+      case 8: // Layer name
+        entity.layer = value;
+        break;
+      case 10: // X coordinate (start point)
+        entity.properties.x1 = parseFloat(value);
+        break;
+      case 20: // Y coordinate (start point)
+        entity.properties.y1 = parseFloat(value);
+        break;
+      case 30: // Z coordinate (start point); the elevation of entities drawn in their OCS
+        entity.properties.z1 = parseFloat(value);
+        break;
+      case 38: // Elevation (LWPOLYLINE)
+        entity.properties.elevation = parseFloat(value);
+        break;
+      case 11: // X2 coordinate (end point)
+        entity.properties.x2 = parseFloat(value);
+        break;
+      case 21: // Y2 coordinate (end point)
+        entity.properties.y2 = parseFloat(value);
+        break;
+      case 12: // Third corner (SOLID, TRACE)
+        entity.properties.x3 = parseFloat(value);
+        break;
+      case 22:
+        entity.properties.y3 = parseFloat(value);
+        break;
+      case 13: // Fourth corner (SOLID, TRACE)
+        entity.properties.x4 = parseFloat(value);
+        break;
+      case 23:
+        entity.properties.y4 = parseFloat(value);
+        break;
+      case 40: // Radius
+        entity.properties.radius = parseFloat(value);
+        break;
+      case 39: // Thickness
+        entity.properties.thickness = parseFloat(value);
+        break;
+      case 50: // Start angle in degrees (ARC)
+        entity.properties.startAngle = parseFloat(value);
+        break;
+      case 51: // End angle in degrees (ARC)
+        entity.properties.endAngle = parseFloat(value);
+        break;
+      case 42: // Bulge (VERTEX)
+        entity.properties.bulge = parseFloat(value);
+        break;
+      case 70: // Flags
+        entity.properties.flags = parseInt(value, 10);
+        if (entity.type === 'POLYLINE') {
+          entity.closed = (entity.properties.flags & POLYLINE_CLOSED) !== 0;
+        }
+        break;
+      case 1: // Text value
+        entity.properties.text = value;
+        break;
+      case 2: // Block name
+        entity.properties.blockName = value;
+        break;
+      case 62: // Colour number (ACI); 0 is BYBLOCK, 256 BYLAYER
+        entity.properties.color = parseInt(value, 10);
+        break;
+      case 420: // True colour as 0x00RRGGBB
+        entity.properties.trueColor = parseInt(value, 10);
+        break;
+      case 67: // 1 when the entity is in paper space
+        entity.properties.paperSpace = value.trim() === '1';
+        break;
+      case 410: // Layout (tab) name, 'Model' for model space
+        entity.properties.layout = value;
+        break;
+      case 210: // Extrusion direction, the normal of the entity's OCS
+        entity.properties.extrusionX = parseFloat(value);
+        break;
+      case 220:
+        entity.properties.extrusionY = parseFloat(value);
+        break;
+      case 230:
+        entity.properties.extrusionZ = parseFloat(value);
+        break;
+    }
+  }
+
+  private applyLayerGroup(record: DXFEntity, code: number, value: string): void {
+    switch (code) {
+      case 2: // Layer name
+        record.properties.name = value;
+        break;
+      case 6: // Linetype name
+        record.properties.linetype = value;
+        break;
+      case 62: // Colour number; negative when the layer is off
+        record.properties.color = parseInt(value, 10);
+        break;
+      case 420: // True colour as 0x00RRGGBB
+        record.properties.trueColor = parseInt(value, 10);
+        break;
+      case 70: // Standard flags
+        record.properties.flags = parseInt(value, 10);
+        break;
+      case 290: // Plotting flag
+        record.properties.plottable = value !== '0';
+        break;
+    }
+  }
+
+  private createLayer(record: DXFEntity): Layer {
+    const color = record.properties.color ?? 7;
+
+    return {
+      name: record.properties.name || '0',
+      color: Math.abs(color) || 7,
+      trueColor: record.properties.trueColor,
+      linetype: record.properties.linetype || 'CONTINUOUS',
+      on: color >= 0,
+      frozen: ((record.properties.flags || 0) & LAYER_FROZEN) !== 0,
+      plottable: record.properties.plottable ?? true,
+      entityCount: 0
+    };
+  }
+
+  private applyLightweightPolylineGroup(entity: DXFEntity, code: number, value: string): boolean {
+    const vertices = entity.vertices!;
+    const last = vertices[vertices.length - 1];
+
+    switch (code) {
+      case 10: // Each X coordinate starts a new vertex
+        vertices.push({ x: parseFloat(value), y: 0, bulge: 0 });
+        return true;
+      case 20:
+        if (last) last.y = parseFloat(value);
+        return true;
+      case 42:
+        if (last) last.bulge = parseFloat(value);
+        return true;
+      case 70:
+        entity.properties.flags = parseInt(value, 10);
+        entity.closed = (entity.properties.flags & POLYLINE_CLOSED) !== 0;
+        return true;
+      case 40: // Per-vertex start/end widths are not needed for walls
+      case 41:
+        return true;
+    }
+
+    return false;
+  }
+
+  private applyEllipseGroup(entity: DXFEntity, code: number, value: string): boolean {
+    switch (code) {
+      case 11: // Major axis endpoint, relative to the centre
+        entity.properties.majorAxisX = parseFloat(value);
+        return true;
+      case 21:
+        entity.properties.majorAxisY = parseFloat(value);
+        return true;
+      case 40: // Minor to major axis ratio
+        entity.properties.axisRatio = parseFloat(value);
+        return true;
+      case 41: // Start parameter in radians
+        entity.properties.startParameter = parseFloat(value);
+        return true;
+      case 42: // End parameter in radians
+        entity.properties.endParameter = parseFloat(value);
+        return true;
+    }
+
+    return false;
+  }
+
+  private applySplineGroup(entity: DXFEntity, code: number, value: string): boolean {
+    const properties = entity.properties;
+    properties.controlPoints ??= [];
+    properties.fitPoints ??= [];
+    properties.knots ??= [];
+    properties.weights ??= [];
+
+    switch (code) {
+      case 70:
+        properties.flags = parseInt(value, 10);
+        entity.closed = (properties.flags & SPLINE_CLOSED) !== 0;
+        return true;
+      case 71:
+        properties.degree = parseInt(value, 10);
+        return true;
+      case 40: // One group per knot value
+        properties.knots.push(parseFloat(value));
+        return true;
+      case 41: // One group per control point weight
+        properties.weights.push(parseFloat(value));
+        return true;
+      case 10: // Each X coordinate starts a new control point
+        properties.controlPoints.push({ x: parseFloat(value), y: 0 });
+        return true;
+      case 20:
+        if (properties.controlPoints.length > 0) {
+          properties.controlPoints[properties.controlPoints.length - 1].y = parseFloat(value);
+        }
+        return true;
+      case 11: // Each X coordinate starts a new fit point
+        properties.fitPoints.push({ x: parseFloat(value), y: 0 });
+        return true;
+      case 21:
+        if (properties.fitPoints.length > 0) {
+          properties.fitPoints[properties.fitPoints.length - 1].y = parseFloat(value);
+        }
+        return true;
+    }
+
+    return false;
+  }
+
+  private applyInsertGroup(entity: DXFEntity, code: number, value: string): boolean {
+    switch (code) {
+      case 41: // X scale factor
+        entity.properties.scaleX = parseFloat(value);
+        return true;
+      case 42: // Y scale factor
+        entity.properties.scaleY = parseFloat(value);
+        return true;
+      case 50: // Rotation in degrees
+        entity.properties.rotation = parseFloat(value);
+        return true;
+      case 70: // Column count (MINSERT arrays)
+        entity.properties.columnCount = parseInt(value, 10);
+        return true;
+      case 71: // Row count
+        entity.properties.rowCount = parseInt(value, 10);
+        return true;
+      case 44: // Column spacing
+        entity.properties.columnSpacing = parseFloat(value);
+        return true;
+      case 45: // Row spacing
+        entity.properties.rowSpacing = parseFloat(value);
+        return true;
+    }
+
+    return false;
+  }
+
+  private applyTextGroup(entity: DXFEntity, code: number, value: string): boolean {
+    const isMText = entity.type === 'MTEXT';
+    const isAttribute = entity.type === 'ATTRIB' || entity.type === 'ATTDEF';
+
+    switch (code) {
+      case 1: // Text value; MTEXT longer than 250 characters arrives in group 3 chunks before it
+        entity.properties.text = isMText ? (entity.properties.text || '') + value : value;
+        return true;
+      case 3: // MTEXT text chunk; the ATTDEF prompt is not needed
+        if (isMText) {
+          entity.properties.text = (entity.properties.text || '') + value;
+        }
+        return true;
+      case 2: // Attribute tag
+        if (!isAttribute) return false;
+        entity.properties.tag = value;
+        return true;
+      case 40: // Text height
+        entity.properties.height = parseFloat(value);
+        return true;
+      case 50: // Rotation, in radians for MTEXT and degrees otherwise
+        entity.properties.rotation = isMText ? parseFloat(value) * 180 / Math.PI : parseFloat(value);
+        return true;
+      case 11: // MTEXT x-axis direction vector; the alignment point of other text
+        if (!isMText) return false;
+        entity.properties.directionX = parseFloat(value);
+        return true;
+      case 21:
+        if (!isMText) return false;
+        entity.properties.directionY = parseFloat(value);
+        return true;
+      case 72: // Horizontal justification (MTEXT: drawing direction)
+        if (isMText) return true;
+        entity.properties.horizontalAlignment = parseInt(value, 10);
+        return true;
+      case 73: // Vertical justification of TEXT (ATTRIB: field length)
+        if (entity.type === 'TEXT') {
+          entity.properties.verticalAlignment = parseInt(value, 10);
+        }
+        return true;
+      case 74: // Vertical justification of ATTRIB and ATTDEF
+        if (isAttribute) {
+          entity.properties.verticalAlignment = parseInt(value, 10);
+        }
+        return true;
+    }
+
+    return false;
+  }
+
+  private applyDimensionGroup(entity: DXFEntity, code: number, value: string): boolean {
+    switch (code) {
+      case 13: // First extension line definition point
+        entity.properties.defPoint1X = parseFloat(value);
+        return true;
+      case 23:
+        entity.properties.defPoint1Y = parseFloat(value);
+        return true;
+      case 14: // Second extension line definition point
+        entity.properties.defPoint2X = parseFloat(value);
+        return true;
+      case 24:
+        entity.properties.defPoint2Y = parseFloat(value);
+        return true;
+      case 42: // Actual measurement, in drawing units times DIMLFAC
+        entity.properties.measurement = parseFloat(value);
+        return true;
+      case 50: // Rotation of rotated linear dimensions in degrees
+        entity.properties.rotation = parseFloat(value);
+        return true;
+    }
+
+    return false;
+  }
+
+  private decodeHatch(entity: DXFEntity, groups: DXFGroup[]): void {
+    let index = 0;
+    const peek = () => groups[index]?.code;
+    // Reads the next group when it carries the expected code; a missing group reads as the fallback
+    const read = (code: number, fallback = 0): number => {
+      if (peek() !== code) return fallback;
+      return parseFloat(groups[index++].value);
+    };
+    const readPoint = (xCode: number): Point => ({ x: read(xCode), y: read(xCode + 10) });
+
+    for (; index < groups.length && peek() !== 91; index++) {
+      const { code, value } = groups[index];
+      if (code === 30) entity.properties.elevation = parseFloat(value);
+      if (code === 2) entity.properties.patternName = value;
+      if (code === 70) entity.properties.solidFill = value.trim() === '1';
+    }
+
+    const boundaries: DXFHatchBoundary[] = [];
+    const pathCount = read(91);
+    for (let path = 0; path < pathCount; path++) {
+      // Each path starts at its flags; source object references and anything unexpected are skipped
+      while (index < groups.length && peek() !== 92) index++;
+      if (index >= groups.length) break;
+      const flags = read(92);
+      const boundary: DXFHatchBoundary = {
+        outer: (flags & (HATCH_PATH_EXTERNAL | HATCH_PATH_OUTERMOST)) !== 0
+      };
+
+      if (flags & HATCH_PATH_POLYLINE) {
+        const hasBulge = read(72) !== 0;
+        read(73); // Closed flag; hatch boundaries always close
+        const vertexCount = read(93);
+        boundary.vertices = [];
+        for (let i = 0; i < vertexCount; i++) {
+          const point = readPoint(10);
+          boundary.vertices.push({ ...point, bulge: hasBulge ? read(42) : 0 });
+        }
+      } else {
+        const edgeCount = read(93);
+        boundary.edges = [];
+        for (let i = 0; i < edgeCount; i++) {
+          const edge = this.readHatchEdge(read(72), peek, read, readPoint);
+          if (edge) boundary.edges.push(edge);
+        }
+      }
+
+      // Text boxes only keep the pattern away from text; they enclose nothing
+      if (!(flags & HATCH_PATH_TEXTBOX)) boundaries.push(boundary);
+    }
+
+    entity.boundaries = boundaries;
+  }
+
+  private readHatchEdge(
+    type: number,
+    peek: () => number | undefined,
+    read: (code: number, fallback?: number) => number,
+    readPoint: (xCode: number) => Point
+  ): DXFHatchEdge | null {
+    switch (type) {
+      case HATCH_EDGE_LINE:
+        return { type: 'line', start: readPoint(10), end: readPoint(11) };
+      case HATCH_EDGE_ARC:
+      case HATCH_EDGE_ELLIPSE: {
+        const center = readPoint(10);
+        const majorAxis = type === HATCH_EDGE_ELLIPSE ? readPoint(11) : { x: 0, y: 0 };
+        const size = read(40); // Radius, or minor to major axis ratio
+        const start = read(50);
+        const end = read(51, 360);
+        const counterClockwise = read(73, 1) !== 0;
+        // Clockwise edges store their angles mirrored about the x-axis
+        const [from, to] = counterClockwise ? [start, end] : [-end, -start];
+
+        if (type === HATCH_EDGE_ARC) {
+          return { type: 'arc', center, radius: size, startAngle: from, endAngle: to, clockwise: !counterClockwise };
+        }
+        // Angles are measured on the ellipse; parameters are those angles on the unit circle it is stretched from
+        const toParameter = (degrees: number) => {
+          const radians = degrees * Math.PI / 180;
+          return Math.atan2(Math.sin(radians) / (size || 1), Math.cos(radians));
+        };
+        return {
+          type: 'ellipse',
+          center,
+          majorAxis,
+          minorAxis: { x: -majorAxis.y * size, y: majorAxis.x * size },
+          startParameter: toParameter(from),
+          endParameter: toParameter(to),
+          clockwise: !counterClockwise
+        };
+      }
+      case HATCH_EDGE_SPLINE: {
+        const degree = read(94, 3);
+        const rational = read(73) !== 0;
+        read(74); // Periodic
+        const knotCount = read(95);
+        const controlCount = read(96);
+        const knots = Array.from({ length: knotCount }, () => read(40));
+        const controlPoints: Point[] = [];
+        const weights: number[] = [];
+        for (let i = 0; i < controlCount; i++) {
+          controlPoints.push(readPoint(10));
+          if (rational) weights.push(read(42, 1));
+        }
+        // Fit data is missing before AutoCAD 2010, where group 97 is already the path's source count
+        const fitCount = read(97);
+        const fitPoints: Point[] = [];
+        while (fitPoints.length < fitCount && peek() === 11) fitPoints.push(readPoint(11));
+        readPoint(12); // Start and end tangents
+        readPoint(13);
+        return { type: 'spline', degree, controlPoints, knots, weights, fitPoints };
+      }
+      default:
+        return null;
+    }
+  }
+
+  private appendPolylineVertex(polyline: DXFEntity, vertex: DXFEntity): void {
+    const polylineFlags = polyline.properties.flags || 0;
+    const vertexFlags = vertex.properties.flags || 0;
+
+    // Meshes and spline control frames do not describe a drawable outline
+    if (polylineFlags & (POLYLINE_3D_MESH | POLYLINE_POLYFACE_MESH)) return;
+    if (vertexFlags & (VERTEX_SPLINE_FRAME | VERTEX_POLYFACE_FACE)) return;
+    if (vertex.properties.x1 === undefined || vertex.properties.y1 === undefined) return;
+
+    polyline.vertices!.push({
+      x: vertex.properties.x1,
+      y: vertex.properties.y1,
+      bulge: vertex.properties.bulge || 0
+    });
+  }
+}
@@ -0,0 +1,38 @@
+import { DXFStreamReader, DXFParseProgress } from './dxfStreamReader';
+import type { DXFDocument, DXFEntity } from './dxfParser';
+
+export interface DXFWorkerRequest {
+  file: Blob; // Passed by reference; the worker reads it in slices
+}
+
+export type DXFWorkerMessage =
+  | { type: 'progress'; progress: DXFParseProgress }
+  | { type: 'entities'; entities: DXFEntity[] } // One batch of model space entities
+  | { type: 'done'; document: DXFDocument } // Header, layers and blocks; its entities came in the batches before
+  | { type: 'error'; message: string };
+
+// Entities are plain objects sent by structured clone, not transferred; each batch is cloned on the
+// main thread as its own task, so the page stays responsive while a large drawing arrives
+const ENTITY_BATCH_SIZE = 5000;
+
+// The app compiles against the DOM library, so the worker scope is typed by hand
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<DXFWorkerRequest>) => void) | null;
+  postMessage(message: DXFWorkerMessage): void;
+};
+
+scope.onmessage = async (event: MessageEvent<DXFWorkerRequest>) => {
+  try {
+    const reader = new DXFStreamReader({
+      onProgress: progress => scope.postMessage({ type: 'progress', progress })
+    });
+    const document = await reader.read(event.data.file);
+
+    for (let start = 0; start < document.entities.length; start += ENTITY_BATCH_SIZE) {
+      scope.postMessage({ type: 'entities', entities: document.entities.slice(start, start + ENTITY_BATCH_SIZE) });
+    }
+    scope.postMessage({ type: 'done', document: { ...document, entities: [] } });
+  } catch (error) {
+    scope.postMessage({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
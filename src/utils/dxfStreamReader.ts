@@ -0,0 +1,75 @@
+import { DXFParser, DXFDocument } from './dxfParser';
+import { DXFBinaryReader } from './dxfBinaryReader';
+
+export interface DXFParseProgress {
+  bytesRead: number;
+  totalBytes: number;
+  entities: number; // Entities parsed so far, block contents included
+}
+
+export interface DXFReadOptions {
+  chunkSize: number; // Bytes decoded and parsed per step
+  onProgress?: (progress: DXFParseProgress) => void;
+  signal?: AbortSignal;
+}
+
+const DEFAULT_READ_OPTIONS: DXFReadOptions = {
+  chunkSize: 4 * 1024 * 1024
+};
+
+export function createAbortError(): DOMException {
+  return new DOMException('DXF parsing was cancelled', 'AbortError');
+}
+
+// Parses a DXF file slice by slice, so a 100 MB drawing never exists as one string or one line array
+export class DXFStreamReader {
+  private options: DXFReadOptions;
+
+  constructor(options: Partial<DXFReadOptions> = {}) {
+    this.options = { ...DEFAULT_READ_OPTIONS, ...options };
+  }
+
+  async read(file: Blob): Promise<DXFDocument> {
+    const { chunkSize, onProgress } = this.options;
+    const parser = new DXFParser();
+    const totalBytes = file.size;
+
+    // Binary DXF needs random access to its typed values and is far smaller than ASCII; it is read whole
+    if (DXFBinaryReader.isBinary(await file.slice(0, 32).arrayBuffer())) {
+      console.log('DXF format: binary');
+      const data = await file.arrayBuffer();
+      this.throwIfAborted();
+      const document = parser.parseGroups(new DXFBinaryReader().read(data));
+      onProgress?.({ bytesRead: totalBytes, totalBytes, entities: parser.entityCount });
+      return document;
+    }
+
+    console.log('DXF format: ASCII');
+    const decoder = new TextDecoder();
+    let partialLine = '';
+    parser.begin();
+
+    for (let offset = 0; offset < totalBytes; offset += chunkSize) {
+      this.throwIfAborted();
+      const chunk = await file.slice(offset, offset + chunkSize).arrayBuffer();
+      const lines = (partialLine + decoder.decode(chunk, { stream: offset + chunkSize < totalBytes })).split('\n');
+
+      // The last line may continue in the next chunk
+      partialLine = lines.pop() ?? '';
+      lines.forEach(line => parser.pushLine(line));
+
+      onProgress?.({ bytesRead: Math.min(offset + chunkSize, totalBytes), totalBytes, entities: parser.entityCount });
+      // Let cancellation and progress messages through between chunks
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+
+    parser.pushLine(partialLine);
+    return parser.finish();
+  }
+
+  private throwIfAborted(): void {
+    if (this.options.signal?.aborted) {
+      throw createAbortError();
+    }
+  }
+}
@@ -0,0 +1,138 @@
+import { Point, TextLabel } from '../types/cad';
+import { DXFEntity } from './dxfParser';
+import { v4 as uuidv4 } from 'uuid';
+
+// %% control codes of single-line text; %%u, %%o and %%k only toggle underline, overline and strike-through
+const SPECIAL_CHARACTERS: Record<string, string> = { c: 'Ø', d: '°', p: '±', '%': '%' };
+
+// ATTRIB and ATTDEF (group 70) flags
+const ATTRIBUTE_INVISIBLE = 1;
+const ATTRIBUTE_CONSTANT = 2;
+
+// TEXT (group 72) horizontal justifications placed between both points
+const TEXT_ALIGNED = 3;
+const TEXT_FIT = 5;
+
+// Decodes text as stored in DXF into what the drawing shows. Paragraph breaks become
+// spaces so a multi-line room tag reads as one label.
+export function decodeDXFText(raw: string, multiline: boolean = false): string {
+  let text = raw
+    .replace(/\\U\+([0-9A-Fa-f]{4})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)))
+    .replace(/%%(\d{3}|[cdpuok%])/gi, (_, code: string) =>
+      /^\d{3}$/.test(code) ? String.fromCharCode(parseInt(code, 10)) : SPECIAL_CHARACTERS[code.toLowerCase()] ?? '');
+
+  if (multiline) {
+    text = decodeMTextFormatting(text);
+  }
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function decodeMTextFormatting(text: string): string {
+  let result = '';
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '{' || char === '}') continue; // Formatting groups
+    if (char !== '\\' || i + 1 >= text.length) {
+      result += char;
+      continue;
+    }
+
+    const code = text[++i];
+    switch (code) {
+      case 'P': // Paragraph break
+      case 'N': // Column break
+      case '~': // Non-breaking space
+        result += ' ';
+        break;
+      case '\\':
+      case '{':
+      case '}':
+        result += code;
+        break;
+      case 'S': { // Stacked fraction such as \S1^2; or \S1/2;
+        const end = text.indexOf(';', i);
+        result += text.slice(i + 1, end === -1 ? undefined : end).replace(/[\^#]/, '/');
+        i = end === -1 ? text.length : end;
+        break;
+      }
+      case 'L': case 'l': case 'O': case 'o': case 'K': case 'k':
+        break; // Underline, overline and strike-through toggles
+      default:
+        if (/[A-Za-z]/.test(code)) {
+          // Font, height, width, obliquing, tracking, alignment and colour codes run to the next ';'
+          const end = text.indexOf(';', i);
+          i = end === -1 ? text.length : end;
+        } else {
+          result += code;
+        }
+    }
+  }
+
+  return result;
+}
+
+// Turns TEXT, MTEXT and block attributes into labels with their placement
+export class DXFTextExtractor {
+  extract(entities: DXFEntity[]): TextLabel[] {
+    return entities.flatMap(entity => {
+      const text = this.getText(entity);
+      if (!text) return [];
+
+      return [{
+        id: uuidv4(),
+        text,
+        position: this.getPosition(entity),
+        height: entity.properties.height || 0,
+        rotation: this.getRotation(entity),
+        layer: entity.layer,
+        tag: entity.properties.tag,
+        source: entity.type as TextLabel['source']
+      }];
+    });
+  }
+
+  // Plain text the entity shows, or null when it shows none
+  getText(entity: DXFEntity): string | null {
+    const flags = entity.properties.flags || 0;
+
+    switch (entity.type) {
+      case 'TEXT':
+      case 'MTEXT':
+        break;
+      case 'ATTRIB':
+        if (flags & ATTRIBUTE_INVISIBLE) return null;
+        break;
+      case 'ATTDEF':
+        // Each insert fills in variable attributes with its own ATTRIB; only constant ones show the definition text
+        if (!entity.block || !(flags & ATTRIBUTE_CONSTANT) || (flags & ATTRIBUTE_INVISIBLE)) return null;
+        break;
+      default:
+        return null;
+    }
+
+    return decodeDXFText(String(entity.properties.text ?? ''), entity.type === 'MTEXT') || null;
+  }
+
+  private getPosition(entity: DXFEntity): Point {
+    const { x1 = 0, y1 = 0, x2, y2, horizontalAlignment = 0, verticalAlignment = 0 } = entity.properties;
+
+    // Justified single-line text is placed by its alignment point; aligned and fit text spans both points
+    if (entity.type === 'MTEXT' || x2 === undefined || y2 === undefined || (horizontalAlignment === 0 && verticalAlignment === 0)) {
+      return { x: x1, y: y1 };
+    }
+    if (horizontalAlignment === TEXT_ALIGNED || horizontalAlignment === TEXT_FIT) {
+      return { x: (x1 + x2) / 2, y: (y1 + y2) / 2 };
+    }
+    return { x: x2, y: y2 };
+  }
+
+  private getRotation(entity: DXFEntity): number {
+    const { directionX, directionY, rotation } = entity.properties;
+    // An MTEXT direction vector overrides its rotation angle
+    if (entity.type === 'MTEXT' && directionX !== undefined) {
+      return Math.atan2(directionY || 0, directionX) * 180 / Math.PI;
+    }
+    return rotation || 0;
+  }
+}
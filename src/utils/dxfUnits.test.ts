@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { DXFParser } from './dxfParser';
+import { DXFUnitDetector } from './dxfUnits';
+import { dimension, entities, header, rectangle } from '../test/dxfFixture';
+
+const detect = (sections: string[][]) => new DXFUnitDetector().detect(new DXFParser().parse([...sections.flat(), '0', 'EOF']));
+
+describe('DXFUnitDetector', () => {
+  it('reads the declared $INSUNITS', () => {
+    const units = detect([header({ $INSUNITS: [70, 5] }), entities([rectangle('WALL', 0, 0, 100, 100)])]);
+
+    expect(units).toMatchObject({ unit: 'cm', millimetresPerUnit: 10, source: 'INSUNITS', dimensionScale: 1 });
+  });
+
+  it('falls back to $MEASUREMENT, then to millimetres', () => {
+    expect(detect([header({ $MEASUREMENT: [70, 0] })])).toMatchObject({ unit: 'in', source: 'MEASUREMENT' });
+    expect(detect([header({})])).toMatchObject({ unit: 'mm', source: 'DEFAULT' });
+  });
+
+  it('scales undeclared drawings to their dimension values', () => {
+    const units = detect([entities([dimension(0, 10, 10000), dimension(0, 8, 8000)])]);
+
+    expect(units.dimensionScale).toBeCloseTo(1000);
+  });
+
+  it('keeps declared units and only reports dimensions that disagree', () => {
+    const units = detect([header({ $INSUNITS: [70, 6] }), entities([dimension(0, 10, 10000), dimension(0, 8, 8000)])]);
+
+    expect(units.millimetresPerUnit).toBe(1000);
+    expect(units.dimensionScale).toBe(1);
+    expect(units.measuredDimensionScale).toBeCloseTo(1000);
+  });
+
+  it('leaves paper-space dimensions out of the scale', () => {
+    const paperSpace: [number, number][] = [[67, 1]];
+    const units = detect([entities([
+      dimension(0, 10, 10000),
+      dimension(0, 8, 8000),
+      dimension(0, 1, 1, paperSpace),
+      dimension(0, 2, 2, paperSpace),
+      dimension(0, 3, 3, paperSpace)
+    ])]);
+
+    expect(units.dimensionScale).toBeCloseTo(1000);
+  });
+});
@@ -0,0 +1,133 @@
+import { DXFDocument, DXFEntity } from './dxfParser';
+import { decodeDXFText } from './dxfText';
+
+export interface DXFUnitInfo {
+  unit: string; // Drawing unit the geometry was authored in, e.g. 'mm' or 'in'
+  millimetresPerUnit: number;
+  dimensionScale: number; // Scale applied so geometry matches its dimension values; 1 when the drawing is full size
+  measuredDimensionScale: number; // Dimension values over measured geometry, applied or not
+  source: 'INSUNITS' | 'MEASUREMENT' | 'DEFAULT';
+}
+
+// $INSUNITS codes (0 is unitless)
+const INSUNITS: Record<number, { unit: string; millimetres: number }> = {
+  1: { unit: 'in', millimetres: 25.4 },
+  2: { unit: 'ft', millimetres: 304.8 },
+  3: { unit: 'mi', millimetres: 1609344 },
+  4: { unit: 'mm', millimetres: 1 },
+  5: { unit: 'cm', millimetres: 10 },
+  6: { unit: 'm', millimetres: 1000 },
+  7: { unit: 'km', millimetres: 1000000 },
+  8: { unit: 'µin', millimetres: 0.0000254 },
+  9: { unit: 'mil', millimetres: 0.0254 },
+  10: { unit: 'yd', millimetres: 914.4 },
+  11: { unit: 'Å', millimetres: 0.0000001 },
+  12: { unit: 'nm', millimetres: 0.000001 },
+  13: { unit: 'µm', millimetres: 0.001 },
+  14: { unit: 'dm', millimetres: 100 },
+  15: { unit: 'dam', millimetres: 10000 },
+  16: { unit: 'hm', millimetres: 100000 },
+  21: { unit: 'US survey ft', millimetres: 1200000 / 3937 }
+};
+
+// DIMENSION (group 70) type values
+const DIMENSION_TYPE_MASK = 7;
+const DIMENSION_ROTATED = 0;
+const DIMENSION_ALIGNED = 1;
+
+// Dimensions that agree with the median ratio within this fraction count towards a consensus
+const SCALE_AGREEMENT = 0.02;
+
+export class DXFUnitDetector {
+  // Declared $INSUNITS are trusted; dimensions only rescale drawings whose units are guessed
+  detect(document: DXFDocument): DXFUnitInfo {
+    const headerUnit = this.getHeaderUnit(document.header);
+    const measuredDimensionScale = this.getDimensionScale(document.entities);
+    return {
+      ...headerUnit,
+      dimensionScale: headerUnit.source === 'INSUNITS' ? 1 : measuredDimensionScale,
+      measuredDimensionScale
+    };
+  }
+
+  private getHeaderUnit(header: Record<string, string>): Pick<DXFUnitInfo, 'unit' | 'millimetresPerUnit' | 'source'> {
+    const insUnits = parseInt(header.$INSUNITS, 10);
+    if (INSUNITS[insUnits]) {
+      return { ...this.toUnitInfo(insUnits), source: 'INSUNITS' };
+    }
+
+    // Unitless drawings fall back to the imperial/metric switch, which AutoCAD defaults to inches
+    const measurement = parseInt(header.$MEASUREMENT, 10);
+    if (measurement === 0 || measurement === 1) {
+      return { ...this.toUnitInfo(measurement === 0 ? 1 : 4), source: 'MEASUREMENT' };
+    }
+
+    return { ...this.toUnitInfo(4), source: 'DEFAULT' };
+  }
+
+  private toUnitInfo(code: number): { unit: string; millimetresPerUnit: number } {
+    return { unit: INSUNITS[code].unit, millimetresPerUnit: INSUNITS[code].millimetres };
+  }
+
+  private getDimensionScale(entities: DXFEntity[]): number {
+    // Only model-space dimensions; ones inside blocks are measured in the block's own scale,
+    // and paper-space ones in sheet units through a viewport
+    const ratios = entities
+      .filter(entity => entity.type === 'DIMENSION' && !entity.block && !entity.properties.paperSpace)
+      .map(entity => {
+        const length = this.getDimensionLength(entity);
+        const value = this.getDisplayedValue(entity);
+        return length && value ? value / length : null;
+      })
+      .filter((ratio): ratio is number => ratio !== null && isFinite(ratio) && ratio > 0)
+      .sort((a, b) => a - b);
+
+    if (ratios.length === 0) return 1;
+
+    const median = ratios[Math.floor(ratios.length / 2)];
+    const agreeing = ratios.filter(ratio => Math.abs(ratio - median) <= median * SCALE_AGREEMENT).length;
+    if (agreeing * 2 < ratios.length) {
+      console.warn(`DIMENSION values disagree with the geometry (${ratios.length} dimensions, no common scale)`);
+      return 1;
+    }
+    if (Math.abs(median - 1) <= SCALE_AGREEMENT) return 1;
+
+    console.warn(`DIMENSION values are ${median.toFixed(3)}× the measured geometry`);
+    return median;
+  }
+
+  private getDimensionLength(entity: DXFEntity): number | null {
+    const { defPoint1X, defPoint1Y, defPoint2X, defPoint2Y, rotation } = entity.properties;
+    if ([defPoint1X, defPoint1Y, defPoint2X, defPoint2Y].some(value => value === undefined)) return null;
+
+    const dx = defPoint2X - defPoint1X;
+    const dy = defPoint2Y - defPoint1Y;
+    const type = (entity.properties.flags || 0) & DIMENSION_TYPE_MASK;
+
+    if (type === DIMENSION_ALIGNED) {
+      return Math.hypot(dx, dy);
+    }
+    if (type === DIMENSION_ROTATED) {
+      // Horizontal, vertical and rotated dimensions measure along their rotation direction
+      const angle = (rotation || 0) * Math.PI / 180;
+      return Math.abs(dx * Math.cos(angle) + dy * Math.sin(angle));
+    }
+    return null;
+  }
+
+  private getDisplayedValue(entity: DXFEntity): number | null {
+    const measurement: number | undefined = entity.properties.measurement;
+    const text: string = entity.properties.text || '';
+
+    // An empty override or one containing <> shows the measured value
+    if (text === '' || text.includes('<>')) {
+      return measurement ?? null;
+    }
+
+    // Overridden text: strip MTEXT formatting and read the number; feet-inch strings are not compared
+    const plain = decodeDXFText(text, true);
+    if (/['"]/.test(plain)) return null;
+    const match = plain.match(/-?\d+(?:[.,]\d+)?/);
+    return match ? parseFloat(match[0].replace(',', '.')) : null;
+  }
+}
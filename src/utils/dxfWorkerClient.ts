@@ -0,0 +1,55 @@
+import { DXFDocument, DXFEntity } from './dxfParser';
+import { DXFParseProgress, createAbortError } from './dxfStreamReader';
+import type { DXFWorkerMessage, DXFWorkerRequest } from './dxfParserWorker';
+
+// Runs DXF parsing in a Web Worker so large drawings do not freeze the page
+export class DXFWorkerClient {
+  parse(file: Blob, onProgress?: (progress: DXFParseProgress) => void, signal?: AbortSignal): Promise<DXFDocument> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(createAbortError());
+        return;
+      }
+
+      const worker = new Worker(new URL('./dxfParserWorker.ts', import.meta.url), { type: 'module' });
+
+      // Terminating the worker is the cancellation: parsing stops wherever it is
+      const onAbort = () => {
+        cleanup();
+        reject(createAbortError());
+      };
+      const cleanup = () => {
+        worker.terminate();
+        signal?.removeEventListener('abort', onAbort);
+      };
+      signal?.addEventListener('abort', onAbort);
+
+      const entities: DXFEntity[] = [];
+      worker.onmessage = (event: MessageEvent<DXFWorkerMessage>) => {
+        const message = event.data;
+        if (message.type === 'progress') {
+          onProgress?.(message.progress);
+          return;
+        }
+        if (message.type === 'entities') {
+          entities.push(...message.entities);
+          return;
+        }
+
+        cleanup();
+        if (message.type === 'done') {
+          resolve({ ...message.document, entities });
+        } else {
+          reject(new Error(message.message));
+        }
+      };
+      worker.onerror = event => {
+        cleanup();
+        reject(new Error(event.message || 'The DXF parser worker failed to start'));
+      };
+
+      const request: DXFWorkerRequest = { file };
+      worker.postMessage(request);
+    });
+  }
+}
@@ -1,4 +1,4 @@
-import { CADAnalysisResult } from '../types/cad';
+import { CADAnalysisResult, BuildingAnalysisResult, BuildingSummary } from '../types/cad';
 import { saveAs } from 'file-saver';
 import { PDFDocument, rgb, PageSizes } from 'pdf-lib';
 
@@ -7,11 +7,19 @@ export class ExportManager {
 
   async exportPDF(): Promise<void> {
     const pdfDoc = await PDFDocument.create();
+    await this.addReportPage(pdfDoc);
+    
+    const pdfBytes = await pdfDoc.save();
+    const blob = new Blob([pdfBytes], { type: 'application/pdf' });
+    saveAs(blob, 'cad-analysis-report.pdf');
+  }
+
+  async addReportPage(pdfDoc: PDFDocument, title: string = 'CAD Analysis Report'): Promise<void> {
     const page = pdfDoc.addPage(PageSizes.A4);
     const { height } = page.getSize();
     
     // Add title
-    page.drawText('CAD Analysis Report', {
+    page.drawText(title, {
       x: 50,
       y: height - 50,
       size: 20,
@@ -23,16 +31,12 @@ export class ExportManager {
     
     // Add statistics
     this.addStatisticsToPDF(page, 50, height - 350);
-    
-    const pdfBytes = await pdfDoc.save();
-    const blob = new Blob([pdfBytes], { type: 'application/pdf' });
-    saveAs(blob, 'cad-analysis-report.pdf');
   }
 
-  exportDXF(): void {
+  exportDXF(fileName: string = 'floor-plan-optimized.dxf'): void {
     const dxfContent = this.generateDXFContent();
     const blob = new Blob([dxfContent], { type: 'application/dxf' });
-    saveAs(blob, 'floor-plan-optimized.dxf');
+    saveAs(blob, fileName);
   }
 
   exportJSON(): void {
@@ -118,8 +122,8 @@ export class ExportManager {
 
   private addStatisticsToPDF(page: any, x: number, y: number): void {
     const stats = [
-      `Total Area: ${(this.analysisResult.floorPlan.totalArea / 1000000).toFixed(1)} m²`,
-      `Usable Area: ${(this.analysisResult.floorPlan.usableArea / 1000000).toFixed(1)} m²`,
+      `Gross Area: ${(this.analysisResult.floorPlan.totalArea / 1000000).toFixed(1)} m²`,
+      `Net Usable Area: ${(this.analysisResult.floorPlan.usableArea / 1000000).toFixed(1)} m²`,
       `Number of Ilots: ${this.analysisResult.ilots.length}`,
       `Total Corridor Length: ${(this.analysisResult.optimization.totalCorridorLength / 1000).toFixed(1)} m`,
       `Space Utilization: ${this.analysisResult.optimization.spaceUtilization.toFixed(1)}%`,
@@ -375,4 +379,97 @@ EOF
       maxY: Math.max(...allPoints.map(p => p.y))
     };
   }
-}
\ No newline at end of file
+}
+
+export function summarizeBuilding(floors: CADAnalysisResult[]): BuildingSummary {
+  const netArea = floors.reduce((sum, floor) => sum + floor.floorPlan.usableArea, 0);
+  const ilotArea = floors.reduce((sum, floor) => sum + floor.ilots.reduce((total, ilot) => total + ilot.area, 0), 0);
+
+  return {
+    levelCount: floors.length,
+    grossArea: floors.reduce((sum, floor) => sum + floor.floorPlan.totalArea, 0),
+    netArea,
+    totalIlots: floors.reduce((sum, floor) => sum + floor.ilots.length, 0),
+    totalCorridorLength: floors.reduce((sum, floor) => sum + floor.optimization.totalCorridorLength, 0),
+    spaceUtilization: netArea > 0 ? ilotArea / netArea * 100 : 0
+  };
+}
+
+// Exports every level of a building, each through its own ExportManager, with a building-wide summary
+export class BuildingExportManager {
+  constructor(private result: BuildingAnalysisResult) {}
+
+  async exportPDF(): Promise<void> {
+    const pdfDoc = await PDFDocument.create();
+    this.addSummaryPage(pdfDoc);
+
+    for (const [index, floor] of this.result.floors.entries()) {
+      const level = this.result.building.levels[index];
+      await new ExportManager(floor).addReportPage(pdfDoc, `${level.name} (${(level.elevation / 1000).toFixed(2)} m)`);
+    }
+
+    const pdfBytes = await pdfDoc.save();
+    const blob = new Blob([pdfBytes], { type: 'application/pdf' });
+    saveAs(blob, 'building-analysis-report.pdf');
+  }
+
+  exportDXF(): void {
+    // Levels share plan coordinates, so each goes to its own drawing
+    this.result.floors.forEach((floor, index) => {
+      const level = this.result.building.levels[index];
+      const slug = level.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || `level-${index + 1}`;
+      new ExportManager(floor).exportDXF(`floor-plan-${slug}.dxf`);
+    });
+  }
+
+  exportJSON(): void {
+    const { building, floors, summary } = this.result;
+    const jsonData = {
+      metadata: {
+        exportDate: new Date().toISOString(),
+        version: '1.0',
+        units: floors[0]?.floorPlan.unit ?? 'mm'
+      },
+      building: { id: building.id, name: building.name },
+      summary,
+      levels: floors.map((floor, index) => ({
+        name: building.levels[index].name,
+        elevation: building.levels[index].elevation,
+        floorPlan: floor.floorPlan,
+        ilots: floor.ilots,
+        corridors: floor.corridors,
+        optimization: floor.optimization
+      }))
+    };
+
+    const blob = new Blob([JSON.stringify(jsonData, null, 2)], { type: 'application/json' });
+    saveAs(blob, 'building-analysis-data.json');
+  }
+
+  private addSummaryPage(pdfDoc: PDFDocument): void {
+    const page = pdfDoc.addPage(PageSizes.A4);
+    const { height } = page.getSize();
+    const { building, summary } = this.result;
+
+    page.drawText(`${building.name}: Building Summary`, { x: 50, y: height - 50, size: 20, color: rgb(0, 0, 0) });
+
+    const lines = [
+      `Levels: ${summary.levelCount}`,
+      `Gross Area: ${(summary.grossArea / 1000000).toFixed(1)} m²`,
+      `Net Usable Area: ${(summary.netArea / 1000000).toFixed(1)} m²`,
+      `Number of Ilots: ${summary.totalIlots}`,
+      `Total Corridor Length: ${(summary.totalCorridorLength / 1000).toFixed(1)} m`,
+      `Space Utilization: ${summary.spaceUtilization.toFixed(1)}%`,
+      '',
+      ...building.levels.map((level, index) => {
+        const floor = this.result.floors[index];
+        return `${level.name} (${(level.elevation / 1000).toFixed(2)} m): ` +
+          `${(level.floorPlan.usableArea / 1000000).toFixed(1)} m² net, ${floor?.ilots.length ?? 0} ilots`;
+      })
+    ];
+
+    lines.forEach((line, index) => {
+      page.drawText(line, { x: 50, y: height - 100 - index * 20, size: 12, color: rgb(0, 0, 0) });
+    });
+  }
+}
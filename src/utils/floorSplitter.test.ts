@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { DXFParser, DXFEntity } from './dxfParser';
+import { FloorSplitter, FloorSplitContext } from './floorSplitter';
+import { entities, line, rectangle } from '../test/dxfFixture';
+
+const context: FloorSplitContext = {
+  categorize: (entity: DXFEntity) => entity.layer === 'WALL' || entity.layer === '0' ? 'wall' : null,
+  labelText: (entity: DXFEntity) => entity.type === 'TEXT' ? entity.properties.text ?? null : null
+};
+
+const split = (items: string[][], mode: 'auto' | 'layout' = 'auto') =>
+  new FloorSplitter({ mode }).split(new DXFParser().parse([...entities(items), '0', 'EOF']).entities, context);
+
+const onLayout = (name: string): [number, string | number][] => [[67, 1], [410, name]];
+
+describe('FloorSplitter', () => {
+  it('keeps a single floor in one level', () => {
+    expect(split([rectangle('WALL', 0, 0, 10000, 8000)])).toHaveLength(1);
+  });
+
+  it('splits floors drawn side by side into clusters', () => {
+    const levels = split([rectangle('WALL', 0, 0, 10000, 8000), rectangle('WALL', 30000, 0, 10000, 8000)]);
+
+    expect(levels.map(level => level.elevation)).toEqual([0, 3000]);
+  });
+
+  it('ignores a title block border on a layout', () => {
+    const levels = split([rectangle('WALL', 0, 0, 10000, 8000), rectangle('0', 0, 0, 420, 297, onLayout('Layout1'))]);
+
+    expect(levels).toHaveLength(1);
+    expect(levels[0].entities.every(entity => !entity.properties.paperSpace)).toBe(true);
+  });
+
+  it('splits by layout when several layouts hold full floors', () => {
+    const levels = split([
+      rectangle('WALL', 0, 0, 10000, 8000, onLayout('Ground')),
+      rectangle('WALL', 0, 0, 10000, 8000, onLayout('First')),
+      line('0', 0, 0, 420, 0, onLayout('Cover'))
+    ]);
+
+    expect(levels.map(level => level.name)).toEqual(['Ground', 'First']);
+  });
+
+  it('leaves annotation-only layouts out in layout mode', () => {
+    const levels = split([rectangle('WALL', 0, 0, 10000, 8000), rectangle('0', 0, 0, 420, 297, onLayout('Layout1'))], 'layout');
+
+    expect(levels).toHaveLength(1);
+  });
+});
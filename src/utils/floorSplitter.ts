@@ -0,0 +1,398 @@
+import { Point, LayerCategory, FloorSplitMode } from '../types/cad';
+import { DXFEntity, DXFHatchEdge } from './dxfParser';
+
+export interface FloorSplitOptions {
+  mode: FloorSplitMode;
+  storeyHeight: number; // Elevation step between consecutive levels, in mm
+  clusterGap: number; // Walls closer than this belong to the same floor, in mm
+  minLevelShare: number; // Wall clusters and layouts with less of the largest one's wall length are annotations, not floors
+}
+
+const DEFAULT_FLOOR_SPLIT_OPTIONS: FloorSplitOptions = {
+  mode: 'auto',
+  storeyHeight: 3000,
+  clusterGap: 2000,
+  minLevelShare: 0.2
+};
+
+export interface FloorSplitContext {
+  categorize: (entity: DXFEntity) => LayerCategory | null;
+  labelText: (entity: DXFEntity) => string | null; // Plain text of TEXT, MTEXT and attribute entities
+}
+
+export interface FloorGroup {
+  name: string;
+  elevation: number;
+  entities: DXFEntity[];
+}
+
+interface Bounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+interface PendingGroup {
+  name: string | null; // Fallback name when no level label is found
+  entities: DXFEntity[];
+  frameLabels?: DXFEntity[]; // Text drawn on the frame layer inside a frame names that floor
+}
+
+const MODEL_LAYOUT = 'Model';
+
+export class FloorSplitter {
+  private options: FloorSplitOptions;
+
+  constructor(options: Partial<FloorSplitOptions> = {}) {
+    this.options = { ...DEFAULT_FLOOR_SPLIT_OPTIONS, ...options };
+  }
+
+  // Levels come back lowest first; a drawing with a single floor gives a single group
+  split(entities: DXFEntity[], context: FloorSplitContext): FloorGroup[] {
+    const modelSpace = entities.filter(entity => this.getLayout(entity) === MODEL_LAYOUT);
+    const hasWalls = (list: DXFEntity[]) => list.some(entity => context.categorize(entity) === 'wall');
+
+    let mode = this.options.mode;
+    if (mode !== 'layout' && !hasWalls(modelSpace)) {
+      // Everything is drawn on layouts, so the layouts are the only way to tell floors apart
+      mode = 'layout';
+    } else if (mode === 'auto') {
+      // A title block border or legend on a layout is not a floor; layouts must hold a real share of the walls
+      const frames = this.getFrames(modelSpace, context);
+      mode = frames.length > 0 ? 'frame' : this.getFloorLayouts(entities, context).size > 1 ? 'layout' : 'cluster';
+    }
+
+    let groups: PendingGroup[];
+    switch (mode) {
+      case 'layout':
+        groups = this.splitByLayout(entities, context);
+        break;
+      case 'frame':
+        groups = this.splitByFrames(modelSpace, context);
+        break;
+      case 'cluster':
+        groups = this.splitByClusters(modelSpace, context);
+        break;
+      default:
+        groups = [{ name: null, entities: modelSpace }];
+    }
+    groups = groups.filter(group => hasWalls(group.entities));
+    if (groups.length === 0) groups = [{ name: null, entities: modelSpace }];
+
+    const levels = this.assignLevels(groups, context);
+    console.log(`Split drawing into ${levels.length} level(s) by ${mode}: ${levels.map(level => level.name).join(', ')}`);
+    return levels;
+  }
+
+  private splitByLayout(entities: DXFEntity[], context: FloorSplitContext): PendingGroup[] {
+    // Model space first, then layouts in drawing order
+    const byLayout = new Map<string, DXFEntity[]>([[MODEL_LAYOUT, []]]);
+    entities.forEach(entity => {
+      const layout = this.getLayout(entity);
+      if (!byLayout.has(layout)) byLayout.set(layout, []);
+      byLayout.get(layout)!.push(entity);
+    });
+
+    const floorLayouts = this.getFloorLayouts(entities, context);
+    return [...byLayout.entries()]
+      .filter(([layout]) => floorLayouts.has(layout))
+      .map(([layout, list]) => ({ name: layout === MODEL_LAYOUT ? null : layout, entities: list }));
+  }
+
+  private getFloorLayouts(entities: DXFEntity[], context: FloorSplitContext): Set<string> {
+    const wallLength = new Map<string, number>();
+    entities.filter(entity => context.categorize(entity) === 'wall').forEach(entity => {
+      const layout = this.getLayout(entity);
+      const length = this.getSegments(entity).reduce((sum, [start, end]) => sum + this.getDistance(start, end), 0);
+      wallLength.set(layout, (wallLength.get(layout) || 0) + length);
+    });
+
+    const longest = Math.max(0, ...wallLength.values());
+    return new Set([...wallLength].filter(([, length]) => length > 0 && length >= longest * this.options.minLevelShare).map(([layout]) => layout));
+  }
+
+  private splitByFrames(entities: DXFEntity[], context: FloorSplitContext): PendingGroup[] {
+    const frames = this.getFrames(entities, context);
+    const groups: PendingGroup[] = frames.map(() => ({ name: null, entities: [], frameLabels: [] }));
+
+    // Each entity belongs to the smallest frame around it; anything outside every frame is left out
+    const order = frames.map((_, index) => index).sort((a, b) => this.getArea(frames[a]) - this.getArea(frames[b]));
+    let outside = 0;
+    entities.forEach(entity => {
+      const category = context.categorize(entity);
+      if (category === 'level' && this.isFrame(entity)) return;
+
+      const center = this.getCenter(entity);
+      const index = order.find(candidate => this.pointInPolygon(center, frames[candidate]));
+      if (index === undefined) {
+        outside++;
+      } else if (category === 'level') {
+        groups[index].frameLabels!.push(entity);
+      } else {
+        groups[index].entities.push(entity);
+      }
+    });
+
+    if (outside > 0) console.log(`Ignoring ${outside} entities outside the floor frames`);
+    return groups;
+  }
+
+  private splitByClusters(entities: DXFEntity[], context: FloorSplitContext): PendingGroup[] {
+    // Wall linework is rasterised onto a grid of half the gap; floors drawn side by side are its connected pieces
+    const cellSize = this.options.clusterGap / 2;
+    const cellOf = new Map<string, number>();
+    const cellKeys: string[] = [];
+    const wallEntities = entities.filter(entity => context.categorize(entity) === 'wall');
+    const entityCells = wallEntities.map(entity => {
+      const cells = new Set<number>();
+      this.getSegments(entity).forEach(([start, end]) => {
+        const steps = Math.max(1, Math.ceil(this.getDistance(start, end) / (cellSize / 2)));
+        for (let step = 0; step <= steps; step++) {
+          const t = step / steps;
+          const key = `${Math.floor((start.x + (end.x - start.x) * t) / cellSize)},${Math.floor((start.y + (end.y - start.y) * t) / cellSize)}`;
+          if (!cellOf.has(key)) {
+            cellOf.set(key, cellKeys.length);
+            cellKeys.push(key);
+          }
+          cells.add(cellOf.get(key)!);
+        }
+      });
+      return cells;
+    });
+
+    // Connected components of occupied cells, touching diagonally included
+    const component = new Array<number>(cellKeys.length).fill(-1);
+    let components = 0;
+    cellKeys.forEach((key, start) => {
+      if (component[start] !== -1) return;
+      component[start] = components;
+      const queue = [key];
+      while (queue.length > 0) {
+        const [x, y] = queue.pop()!.split(',').map(Number);
+        for (let dx = -1; dx <= 1; dx++) {
+          for (let dy = -1; dy <= 1; dy++) {
+            const neighbour = cellOf.get(`${x + dx},${y + dy}`);
+            if (neighbour !== undefined && component[neighbour] === -1) {
+              component[neighbour] = components;
+              queue.push(cellKeys[neighbour]);
+            }
+          }
+        }
+      }
+      components++;
+    });
+
+    const clusters = Array.from({ length: components }, () => ({
+      entities: [] as DXFEntity[],
+      wallLength: 0,
+      bounds: { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity } as Bounds
+    }));
+    wallEntities.forEach((entity, index) => {
+      const cluster = clusters[component[[...entityCells[index]][0]]];
+      if (!cluster) return;
+      cluster.entities.push(entity);
+      this.getSegments(entity).forEach(([start, end]) => {
+        cluster.wallLength += this.getDistance(start, end);
+        this.extendBounds(cluster.bounds, start);
+        this.extendBounds(cluster.bounds, end);
+      });
+    });
+
+    // Small clusters are legends, north arrows or details; they and all other entities join the nearest floor
+    const longest = Math.max(0, ...clusters.map(cluster => cluster.wallLength));
+    const floors = clusters.filter(cluster => cluster.wallLength >= longest * this.options.minLevelShare);
+    if (floors.length <= 1) return [{ name: null, entities }];
+
+    const nearestFloor = (entity: DXFEntity) => {
+      const center = this.getCenter(entity);
+      return floors.reduce((best, floor) =>
+        this.distanceToBounds(center, floor.bounds) < this.distanceToBounds(center, best.bounds) ? floor : best);
+    };
+    const groups = new Map(floors.map(floor => [floor, [...floor.entities]]));
+    clusters.filter(cluster => !groups.has(cluster)).forEach(cluster => {
+      cluster.entities.forEach(entity => groups.get(nearestFloor(entity))!.push(entity));
+    });
+    entities.filter(entity => context.categorize(entity) !== 'wall').forEach(entity => {
+      groups.get(nearestFloor(entity))!.push(entity);
+    });
+
+    // Floors read like text: rows from the top of the sheet, left to right within a row
+    const rows: (typeof floors)[] = [];
+    [...floors].sort((a, b) => b.bounds.maxY - a.bounds.maxY).forEach(floor => {
+      const row = rows.find(candidate => candidate.some(other =>
+        floor.bounds.minY < other.bounds.maxY && other.bounds.minY < floor.bounds.maxY));
+      if (row) row.push(floor);
+      else rows.push([floor]);
+    });
+
+    return rows
+      .flatMap(row => row.sort((a, b) => a.bounds.minX - b.bounds.minX))
+      .map(floor => ({ name: null, entities: groups.get(floor)! }));
+  }
+
+  private assignLevels(groups: PendingGroup[], context: FloorSplitContext): FloorGroup[] {
+    // Level labels such as "GROUND FLOOR", "LEVEL 2" or "R+1" give the name and storey; the largest wins
+    const named = groups.map(group => {
+      const candidates = [...(group.frameLabels || []), ...group.entities]
+        .map(entity => ({ text: context.labelText(entity), height: entity.properties.height || 0, frame: group.frameLabels?.includes(entity) }))
+        .filter((label): label is { text: string; height: number; frame: boolean } => !!label.text);
+      const levelLabels = candidates
+        .map(label => ({ ...label, storey: this.parseStorey(label.text) }))
+        .filter(label => label.storey !== null || label.frame)
+        .sort((a, b) => Number(b.frame) - Number(a.frame) || Number(b.storey !== null) - Number(a.storey !== null) || b.height - a.height);
+      const label = levelLabels[0];
+      return { group, name: label?.text || group.name, storey: label ? this.parseStorey(label.text) : null };
+    });
+
+    // Unlabelled floors take the lowest storeys not already claimed, in drawing order
+    const claimed = new Set(named.filter(level => level.storey !== null).map(level => level.storey!));
+    let next = 0;
+    const levels = named.map(level => {
+      let storey = level.storey;
+      if (storey === null) {
+        while (claimed.has(next)) next++;
+        storey = next;
+        claimed.add(storey);
+      }
+      return {
+        name: level.name || (storey === 0 ? 'Ground floor' : `Level ${storey}`),
+        elevation: storey * this.options.storeyHeight,
+        entities: level.group.entities
+      };
+    });
+
+    return levels.sort((a, b) => a.elevation - b.elevation);
+  }
+
+  private parseStorey(text: string): number | null {
+    const normalized = text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+    if (/\b(ground (floor|level)|rdc|rez[- ]de[- ]chaussee)\b/.test(normalized)) return 0;
+    const basement = normalized.match(/\b(basement|sous[- ]sol)\s*(\d+)?\b/);
+    if (basement) return -(parseInt(basement[2] || '1', 10));
+    const relative = normalized.match(/\br\s*([+-])\s*(\d+)\b/);
+    if (relative) return parseInt(relative[2], 10) * (relative[1] === '-' ? -1 : 1);
+    const numbered = normalized.match(/\b(level|floor|storey|story|etage|niveau)\s*(-?\d+)\b/);
+    if (numbered) return parseInt(numbered[2], 10);
+    const ordinal = normalized.match(/\b(\d+)\s*(st|nd|rd|th|er|e|eme)?\s+(floor|storey|story|etage)\b/);
+    if (ordinal) return parseInt(ordinal[1], 10);
+    return null;
+  }
+
+  private getFrames(entities: DXFEntity[], context: FloorSplitContext): Point[][] {
+    return entities
+      .filter(entity => context.categorize(entity) === 'level' && this.isFrame(entity))
+      .map(entity => entity.vertices!.map(vertex => ({ x: vertex.x, y: vertex.y })));
+  }
+
+  private isFrame(entity: DXFEntity): boolean {
+    return (entity.type === 'LWPOLYLINE' || entity.type === 'POLYLINE') && !!entity.vertices && entity.vertices.length >= 3;
+  }
+
+  private getLayout(entity: DXFEntity): string {
+    // Entities before DXF R2000 carry only the paper space flag
+    if (entity.properties.layout) return entity.properties.layout;
+    return entity.properties.paperSpace ? 'Layout' : MODEL_LAYOUT;
+  }
+
+  private getSegments(entity: DXFEntity): [Point, Point][] {
+    const p = entity.properties;
+    if (entity.vertices && entity.vertices.length > 0) {
+      const points = entity.vertices.map(vertex => ({ x: vertex.x, y: vertex.y }));
+      const segments: [Point, Point][] = points.slice(1).map((point, i) => [points[i], point]);
+      if (entity.closed && points.length > 2) segments.push([points[points.length - 1], points[0]]);
+      return segments.length > 0 ? segments : [[points[0], points[0]]];
+    }
+    // Hatches by the outline through their vertices and edge end points
+    const boundaryPoints = (entity.boundaries || []).flatMap(boundary => [
+      ...(boundary.vertices || []).map(vertex => ({ x: vertex.x, y: vertex.y })),
+      ...(boundary.edges || []).flatMap(edge => this.getEdgePoints(edge))
+    ]);
+    if (boundaryPoints.length > 0) {
+      return boundaryPoints.map((point, i) => [point, boundaryPoints[(i + 1) % boundaryPoints.length]]);
+    }
+    if (p.x3 !== undefined && p.y3 !== undefined && (entity.type === 'SOLID' || entity.type === 'TRACE')) {
+      const corners = [
+        { x: p.x1 || 0, y: p.y1 || 0 },
+        { x: p.x2 ?? 0, y: p.y2 ?? 0 },
+        { x: p.x4 ?? p.x3, y: p.y4 ?? p.y3 },
+        { x: p.x3, y: p.y3 }
+      ];
+      return corners.map((corner, i) => [corner, corners[(i + 1) % corners.length]]);
+    }
+    if (p.x2 !== undefined && p.y2 !== undefined && entity.type === 'LINE') {
+      return [[{ x: p.x1 || 0, y: p.y1 || 0 }, { x: p.x2, y: p.y2 }]];
+    }
+
+    // Curves and everything else count by their extent around the defining point
+    const center = { x: p.x1 || 0, y: p.y1 || 0 };
+    const radius = entity.type === 'ARC' || entity.type === 'CIRCLE' ? p.radius || 0 : 0;
+    return [[{ x: center.x - radius, y: center.y - radius }, { x: center.x + radius, y: center.y + radius }]];
+  }
+
+  private getEdgePoints(edge: DXFHatchEdge): Point[] {
+    switch (edge.type) {
+      case 'line':
+        return [edge.start, edge.end];
+      case 'arc':
+        return [edge.startAngle, edge.endAngle].map(degrees => ({
+          x: edge.center.x + edge.radius * Math.cos(degrees * Math.PI / 180),
+          y: edge.center.y + edge.radius * Math.sin(degrees * Math.PI / 180)
+        }));
+      case 'ellipse':
+        return [edge.startParameter, edge.endParameter].map(t => ({
+          x: edge.center.x + edge.majorAxis.x * Math.cos(t) + edge.minorAxis.x * Math.sin(t),
+          y: edge.center.y + edge.majorAxis.y * Math.cos(t) + edge.minorAxis.y * Math.sin(t)
+        }));
+      case 'spline':
+        return edge.controlPoints.length > 0 ? edge.controlPoints : edge.fitPoints;
+    }
+  }
+
+  private getCenter(entity: DXFEntity): Point {
+    const bounds: Bounds = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+    this.getSegments(entity).forEach(([start, end]) => {
+      this.extendBounds(bounds, start);
+      this.extendBounds(bounds, end);
+    });
+    return { x: (bounds.minX + bounds.maxX) / 2, y: (bounds.minY + bounds.maxY) / 2 };
+  }
+
+  private extendBounds(bounds: Bounds, point: Point): void {
+    bounds.minX = Math.min(bounds.minX, point.x);
+    bounds.minY = Math.min(bounds.minY, point.y);
+    bounds.maxX = Math.max(bounds.maxX, point.x);
+    bounds.maxY = Math.max(bounds.maxY, point.y);
+  }
+
+  private distanceToBounds(point: Point, bounds: Bounds): number {
+    const dx = Math.max(bounds.minX - point.x, 0, point.x - bounds.maxX);
+    const dy = Math.max(bounds.minY - point.y, 0, point.y - bounds.maxY);
+    return Math.hypot(dx, dy);
+  }
+
+  private getArea(polygon: Point[]): number {
+    return Math.abs(polygon.reduce((sum, point, i) => {
+      const next = polygon[(i + 1) % polygon.length];
+      return sum + point.x * next.y - next.x * point.y;
+    }, 0)) / 2;
+  }
+
+  private pointInPolygon(point: Point, polygon: Point[]): boolean {
+    let inside = false;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+      if (
+        polygon[i].y > point.y !== polygon[j].y > point.y &&
+        point.x < ((polygon[j].x - polygon[i].x) * (point.y - polygon[i].y)) / (polygon[j].y - polygon[i].y) + polygon[i].x
+      ) {
+        inside = !inside;
+      }
+    }
+    return inside;
+  }
+
+  private getDistance(p1: Point, p2: Point): number {
+    return Math.hypot(p1.x - p2.x, p1.y - p2.y);
+  }
+}
@@ -1,5 +1,5 @@
 
-import { Point, Ilot, FloorPlan } from '../types/cad';
+import { Point, Ilot, FloorPlan, VerticalCirculation } from '../types/cad';
 import { v4 as uuidv4 } from 'uuid';
 
 interface IlotSize {
@@ -48,6 +48,13 @@ export class IlotOptimizer {
     }
   ];
 
+  // Stairs and lifts keep their landing clear for evacuation and waiting; shafts only their access panels
+  private circulationClearances: Record<VerticalCirculation['type'], number> = {
+    STAIR: 1500,
+    LIFT: 1500,
+    SHAFT: 300
+  };
+
   private geneticConfig: GeneticConfiguration = {
     populationSize: 50,
     maxGenerations: 100,
@@ -91,7 +98,16 @@ export class IlotOptimizer {
     
     console.log(`Creating analysis grid: ${width}x${height}`);
     
-    const grid = Array(height).fill(null).map(() => Array(width).fill(true));
+    // With detected rooms only floor inside a room is usable, so free areas never span two rooms;
+    // otherwise the floor is every building outline less its courtyards and shafts
+    const rooms = this.floorPlan.rooms;
+    const grid = Array(height).fill(null).map(() => Array(width).fill(false));
+    if (rooms.length > 0) {
+      rooms.forEach(room => this.markPolygonInGrid(grid, room.polygon, true, gridSize, minX, minY));
+    } else {
+      this.floorPlan.outlines.forEach(outline => this.markPolygonInGrid(grid, outline, true, gridSize, minX, minY));
+    }
+    this.floorPlan.holes.forEach(hole => this.markPolygonInGrid(grid, hole, false, gridSize, minX, minY));
 
     // Mark walls with thickness consideration
     this.floorPlan.walls.forEach(wall => {
@@ -112,6 +128,16 @@ export class IlotOptimizer {
       this.markRestrictedAreaInGrid(grid, area.bounds, gridSize, minX, minY, 1000); // 1m buffer
     });
 
+    // Stairs, lifts and shafts with their own clearances
+    this.floorPlan.verticalCirculation.forEach(element => {
+      this.markRestrictedAreaInGrid(grid, element.polygon, gridSize, minX, minY, this.circulationClearances[element.type]);
+    });
+
+    // Keep entrances and exits clear
+    this.floorPlan.entrances.forEach(entrance => {
+      this.markRestrictedAreaInGrid(grid, entrance.bounds, gridSize, minX, minY, 1500); // 1.5m buffer
+    });
+
     // Apply accessibility clearances
     this.applyAccessibilityClearances(grid, gridSize);
 
@@ -121,6 +147,30 @@ export class IlotOptimizer {
     return areas.filter(area => this.calculatePolygonArea(area) > 4000000); // Minimum 4m²
   }
 
+  private markPolygonInGrid(
+    grid: boolean[][],
+    polygon: Point[],
+    value: boolean,
+    gridSize: number,
+    offsetX: number,
+    offsetY: number
+  ): void {
+    const bounds = this.calculateBounds(polygon);
+    const startX = Math.max(0, Math.floor((bounds.minX - offsetX) / gridSize));
+    const endX = Math.min(grid[0].length - 1, Math.ceil((bounds.maxX - offsetX) / gridSize));
+    const startY = Math.max(0, Math.floor((bounds.minY - offsetY) / gridSize));
+    const endY = Math.min(grid.length - 1, Math.ceil((bounds.maxY - offsetY) / gridSize));
+
+    for (let y = startY; y <= endY; y++) {
+      for (let x = startX; x <= endX; x++) {
+        const center = { x: offsetX + (x + 0.5) * gridSize, y: offsetY + (y + 0.5) * gridSize };
+        if (this.pointInPolygon(center, polygon)) {
+          grid[y][x] = value;
+        }
+      }
+    }
+  }
+
   private markAdvancedLineInGrid(
     grid: boolean[][],
     start: Point,
@@ -134,7 +184,8 @@ export class IlotOptimizer {
     const y1 = Math.floor((start.y - offsetY) / gridSize);
     const x2 = Math.floor((end.x - offsetX) / gridSize);
     const y2 = Math.floor((end.y - offsetY) / gridSize);
-    const thicknessCells = Math.ceil(thickness / gridSize);
+    // Walls are centrelines, so block half the thickness on each side
+    const thicknessCells = Math.ceil(thickness / 2 / gridSize);
 
     // Enhanced Bresenham's algorithm with anti-aliasing
     const dx = Math.abs(x2 - x1);
@@ -225,6 +276,22 @@ export class IlotOptimizer {
     const widthCells = Math.ceil(window.width / gridSize);
     const clearanceCells = Math.ceil(600 / gridSize); // 60cm clearance from windows
 
+    // Windows placed on a wall keep the clearance on both faces of that wall
+    if (window.angle !== undefined) {
+      const rad = (window.angle * Math.PI) / 180;
+      const along = { x: Math.cos(rad), y: Math.sin(rad) };
+      for (let i = -widthCells / 2; i <= widthCells / 2; i += 0.5) {
+        for (let j = -clearanceCells; j <= clearanceCells; j += 0.5) {
+          const nx = Math.floor(centerX + i * along.x - j * along.y);
+          const ny = Math.floor(centerY + i * along.y + j * along.x);
+          if (ny >= 0 && ny < grid.length && nx >= 0 && nx < grid[0].length) {
+            grid[ny][nx] = false;
+          }
+        }
+      }
+      return;
+    }
+
     // Mark clearance area in front of window
     for (let i = -widthCells/2; i <= widthCells/2; i++) {
       for (let j = 0; j <= clearanceCells; j++) {
@@ -463,7 +530,8 @@ export class IlotOptimizer {
       }
     });
 
-    return ilots;
+    // Layout patterns fill bounding boxes of open floor, which can still hold a column
+    return ilots.filter(ilot => !this.isObstructed(ilot));
   }
 
   private createOptimizedHorizontalRows(area: Point[], bounds: any, ilots: Ilot[], targetIlots: number): void {
@@ -842,10 +910,84 @@ export class IlotOptimizer {
     
     // Fine-tune positions for optimal spacing
     optimized = this.optimizeSpacing(optimized);
+
+    // Spacing adjustments can push an îlot through a wall
+    optimized = this.assignIlotsToRooms(optimized);
+
+    // ...or onto a column
+    optimized = this.removeObstructedIlots(optimized);
     
     return optimized;
   }
 
+  private removeObstructedIlots(ilots: Ilot[]): Ilot[] {
+    const kept = ilots.filter(ilot => !this.isObstructed(ilot));
+
+    if (kept.length < ilots.length) {
+      console.log(`Removed ${ilots.length - kept.length} îlots over columns, restricted zones or stair and lift clearances`);
+    }
+    return kept;
+  }
+
+  private isObstructed(ilot: Ilot): boolean {
+    return this.floorPlan.restrictedAreas.some(area => this.ilotOverlapsPolygon(ilot, area.bounds)) ||
+      this.floorPlan.verticalCirculation.some(element =>
+        this.ilotOverlapsPolygon(ilot, this.expandPolygon(element.polygon, this.circulationClearances[element.type]))
+      );
+  }
+
+  private ilotOverlapsPolygon(ilot: Ilot, polygon: Point[]): boolean {
+    if (polygon.length < 3) return false;
+
+    const bounds = this.getIlotBounds(ilot);
+    const corners = [
+      { x: bounds.left, y: bounds.top },
+      { x: bounds.right, y: bounds.top },
+      { x: bounds.right, y: bounds.bottom },
+      { x: bounds.left, y: bounds.bottom }
+    ];
+    if (polygon.some(point => point.x > bounds.left && point.x < bounds.right && point.y > bounds.top && point.y < bounds.bottom)) {
+      return true;
+    }
+    if (corners.some(corner => this.pointInPolygon(corner, polygon))) {
+      return true;
+    }
+
+    // A thin zone can cross the îlot with no vertex inside either shape
+    return polygon.some((start, i) => {
+      const end = polygon[(i + 1) % polygon.length];
+      return corners.some((corner, j) => this.segmentsCross(start, end, corner, corners[(j + 1) % corners.length]));
+    });
+  }
+
+  private segmentsCross(a: Point, b: Point, c: Point, d: Point): boolean {
+    const side = (p: Point, q: Point, r: Point) => Math.sign((q.x - p.x) * (r.y - p.y) - (q.y - p.y) * (r.x - p.x));
+    return side(a, b, c) * side(a, b, d) < 0 && side(c, d, a) * side(c, d, b) < 0;
+  }
+
+  private assignIlotsToRooms(ilots: Ilot[]): Ilot[] {
+    const rooms = this.floorPlan.rooms;
+    if (rooms.length === 0) return ilots;
+
+    // An îlot belongs to the room that contains all four of its corners
+    const assigned = ilots.flatMap(ilot => {
+      const bounds = this.getIlotBounds(ilot);
+      const corners = [
+        { x: bounds.left, y: bounds.top },
+        { x: bounds.right, y: bounds.top },
+        { x: bounds.right, y: bounds.bottom },
+        { x: bounds.left, y: bounds.bottom }
+      ];
+      const room = rooms.find(candidate => corners.every(corner => this.pointInPolygon(corner, candidate.polygon)));
+      return room ? [{ ...ilot, roomId: room.id }] : [];
+    });
+
+    if (assigned.length < ilots.length) {
+      console.log(`Removed ${ilots.length - assigned.length} îlots crossing room boundaries`);
+    }
+    return assigned;
+  }
+
   private removeOverlappingIlots(ilots: Ilot[]): Ilot[] {
     const nonOverlapping: Ilot[] = [];
     
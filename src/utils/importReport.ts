@@ -0,0 +1,68 @@
+import { ImportReport, ImportSeverity } from '../types/cad';
+
+// Collects what an import saw and decided so the app can show it next to the result
+export class ImportReporter {
+  private report: ImportReport;
+
+  constructor(fileName: string, format: string) {
+    this.report = {
+      fileName,
+      format,
+      entitiesByType: {},
+      entitiesByLayer: {},
+      skipped: [],
+      units: [],
+      repairs: [],
+      messages: []
+    };
+  }
+
+  countEntities(entities: { type: string; layer: string }[]): void {
+    entities.forEach(entity => {
+      this.report.entitiesByType[entity.type] = (this.report.entitiesByType[entity.type] || 0) + 1;
+      this.report.entitiesByLayer[entity.layer] = (this.report.entitiesByLayer[entity.layer] || 0) + 1;
+    });
+  }
+
+  skip(reason: string, count: number): void {
+    if (count === 0) return;
+    const existing = this.report.skipped.find(item => item.reason === reason);
+    if (existing) {
+      existing.count += count;
+    } else {
+      this.report.skipped.push({ reason, count });
+    }
+  }
+
+  unit(decision: string): void {
+    this.report.units.push(decision);
+  }
+
+  repair(description: string): void {
+    this.report.repairs.push(description);
+  }
+
+  info(message: string): void {
+    this.add('info', message);
+  }
+
+  warn(message: string): void {
+    this.add('warning', message);
+  }
+
+  error(message: string): void {
+    this.add('error', message);
+  }
+
+  hasErrors(): boolean {
+    return this.report.messages.some(message => message.severity === 'error');
+  }
+
+  getReport(): ImportReport {
+    return this.report;
+  }
+
+  private add(severity: ImportSeverity, message: string): void {
+    this.report.messages.push({ severity, message });
+  }
+}
@@ -0,0 +1,184 @@
+import { Layer, LayerCategory, LayerMappingProfile, LayerMappingRule } from '../types/cad';
+
+export interface LayerRuleMatch {
+  rule: LayerMappingRule;
+  layers: string[];
+  entityCount: number;
+}
+
+export interface LayerMappingPreview {
+  matches: LayerRuleMatch[];
+  unmatched: Layer[];
+}
+
+export const BUILT_IN_LAYER_PROFILES: LayerMappingProfile[] = [
+  {
+    id: 'generic',
+    name: 'Generic',
+    builtIn: true,
+    rules: [
+      { pattern: 'WALL', category: 'wall' },
+      { pattern: 'WALLS', category: 'wall' },
+      { pattern: 'A-WALL', category: 'wall' },
+      { pattern: 'ARCH-WALL', category: 'wall' },
+      { pattern: '0', category: 'wall' },
+      { pattern: 'DOOR', category: 'door' },
+      { pattern: 'DOORS', category: 'door' },
+      { pattern: 'A-DOOR', category: 'door' },
+      { pattern: 'WINDOW', category: 'window' },
+      { pattern: 'WINDOWS', category: 'window' },
+      { pattern: 'A-GLAZ', category: 'window' },
+      { pattern: 'LEVEL-FRAME', category: 'level' },
+      { pattern: 'FLOOR-FRAME', category: 'level' }
+    ]
+  },
+  {
+    // US National CAD Standard (AIA layer guidelines)
+    id: 'aia',
+    name: 'AIA / NCS',
+    builtIn: true,
+    rules: [
+      { pattern: '*-ANNO*', category: 'ignore' },
+      { pattern: 'A-WALL*', category: 'wall' },
+      { pattern: 'A-DOOR*', category: 'door' },
+      { pattern: 'A-GLAZ*', category: 'window' },
+      { pattern: 'A-COLS*', category: 'restricted' },
+      { pattern: 'S-COLS*', category: 'restricted' },
+      { pattern: 'A-FLOR-STRS*', category: 'restricted' },
+      { pattern: 'A-FLOR-EVTR*', category: 'restricted' },
+      { pattern: 'A-FURN*', category: 'ignore' },
+      { pattern: 'A-AREA*', category: 'ignore' }
+    ]
+  },
+  {
+    // ISO 13567: 2-character agent followed by the SfB element code
+    id: 'iso13567',
+    name: 'ISO 13567',
+    builtIn: true,
+    rules: [
+      { pattern: '??21*', category: 'wall' },
+      { pattern: '??22*', category: 'wall' },
+      { pattern: '??31*', category: 'window' },
+      { pattern: '??32*', category: 'door' },
+      { pattern: '??24*', category: 'restricted' },
+      { pattern: '??28*', category: 'restricted' },
+      { pattern: '??82*', category: 'ignore' }
+    ]
+  },
+  {
+    id: 'french',
+    name: 'Français',
+    builtIn: true,
+    rules: [
+      { pattern: 'NO ENTREE*', category: 'restricted' },
+      { pattern: '*INTERDIT*', category: 'restricted' },
+      { pattern: 'ENTREE*', category: 'entrance' },
+      { pattern: 'SORTIE*', category: 'entrance' },
+      { pattern: 'MUR*', category: 'wall' },
+      { pattern: 'CLOISON*', category: 'wall' },
+      { pattern: 'PORTE*', category: 'door' },
+      { pattern: 'FENETRE*', category: 'window' },
+      { pattern: 'BAIE*', category: 'window' },
+      { pattern: 'POTEAU*', category: 'restricted' },
+      { pattern: 'CADRE NIVEAU*', category: 'level' },
+      { pattern: 'COTATION*', category: 'ignore' },
+      { pattern: 'TEXTE*', category: 'ignore' },
+      { pattern: 'MOBILIER*', category: 'ignore' }
+    ]
+  }
+];
+
+export const DEFAULT_LAYER_PROFILE = BUILT_IN_LAYER_PROFILES[0];
+
+export class LayerMapper {
+  private compiledRules: { rule: LayerMappingRule; regex: RegExp }[];
+  private cache = new Map<string, LayerCategory | null>();
+
+  constructor(profile: LayerMappingProfile) {
+    this.compiledRules = profile.rules.map(rule => ({
+      rule,
+      regex: this.compilePattern(rule.pattern)
+    }));
+  }
+
+  classify(layerName: string): LayerCategory | null {
+    if (!this.cache.has(layerName)) {
+      const normalized = this.normalize(layerName);
+      const match = this.compiledRules.find(({ regex }) => regex.test(normalized));
+      this.cache.set(layerName, match ? match.rule.category : null);
+    }
+    return this.cache.get(layerName)!;
+  }
+
+  preview(layers: Layer[]): LayerMappingPreview {
+    // Rules are evaluated in order, so each layer is credited to the first rule it matches
+    const matches: LayerRuleMatch[] = this.compiledRules.map(({ rule }) => ({ rule, layers: [], entityCount: 0 }));
+    const unmatched: Layer[] = [];
+
+    layers.forEach(layer => {
+      const normalized = this.normalize(layer.name);
+      const index = this.compiledRules.findIndex(({ regex }) => regex.test(normalized));
+      if (index === -1) {
+        unmatched.push(layer);
+        return;
+      }
+      matches[index].layers.push(layer.name);
+      matches[index].entityCount += layer.entityCount;
+    });
+
+    return { matches, unmatched };
+  }
+
+  private compilePattern(pattern: string): RegExp {
+    // Glob patterns: * matches any run of characters, ? a single character
+    const source = this.normalize(pattern)
+      .split('')
+      .map(char => {
+        if (char === '*') return '.*';
+        if (char === '?') return '.';
+        return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+      })
+      .join('');
+    return new RegExp(`^${source}$`);
+  }
+
+  private normalize(value: string): string {
+    // Compare case- and accent-insensitively so FENÊTRE matches FENETRE
+    return value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toUpperCase().trim();
+  }
+}
+
+export class LayerProfileStore {
+  private static readonly STORAGE_KEY = 'cad-analysis-pro.layer-profiles';
+
+  loadCustomProfiles(): LayerMappingProfile[] {
+    if (typeof localStorage === 'undefined') return [];
+
+    try {
+      const stored = localStorage.getItem(LayerProfileStore.STORAGE_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.warn('Could not read saved layer profiles:', error);
+      return [];
+    }
+  }
+
+  getAllProfiles(): LayerMappingProfile[] {
+    return [...BUILT_IN_LAYER_PROFILES, ...this.loadCustomProfiles()];
+  }
+
+  saveProfile(profile: LayerMappingProfile): void {
+    const profiles = this.loadCustomProfiles().filter(existing => existing.id !== profile.id);
+    profiles.push({ ...profile, builtIn: false });
+    this.writeProfiles(profiles);
+  }
+
+  deleteProfile(profileId: string): void {
+    this.writeProfiles(this.loadCustomProfiles().filter(profile => profile.id !== profileId));
+  }
+
+  private writeProfiles(profiles: LayerMappingProfile[]): void {
+    if (typeof localStorage === 'undefined') return;
+    localStorage.setItem(LayerProfileStore.STORAGE_KEY, JSON.stringify(profiles));
+  }
+}
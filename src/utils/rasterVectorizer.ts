@@ -0,0 +1,507 @@
+import { Point } from '../types/cad';
+import { ColorClassifier, DEFAULT_COLOR_REFERENCES } from './colorClassifier';
+
+export interface RasterImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray; // RGBA, as in ImageData
+}
+
+export interface RasterWallStroke {
+  start: Point; // Pixel coordinates, y down
+  end: Point;
+  thickness: number; // Pixels
+}
+
+export interface RasterVectorData {
+  walls: RasterWallStroke[];
+  restrictedZones: Point[][];
+  entranceOutlines: Point[][];
+}
+
+export interface RasterVectorizerOptions {
+  colorTolerance: number; // CIE76 ΔE for blue/red zone colours
+  minWallLength: number; // Pixels; shorter strokes and smaller blobs (mostly text) are dropped
+  lineTolerance: number; // Pixels a fitted segment may deviate from the skeleton
+}
+
+// Pixel classes
+const BACKGROUND = 0;
+const WALL = 1;
+const RESTRICTED = 2;
+const ENTRANCE = 3;
+
+// Grey pixels never count as zone colours, however close a reference is
+const MIN_ZONE_CHROMA = 40;
+
+// 8-neighbourhood, clockwise from east in image coordinates (y down)
+const DIRECTIONS: [number, number][] = [[1, 0], [1, 1], [0, 1], [-1, 1], [-1, 0], [-1, -1], [0, -1], [1, -1]];
+
+export class RasterVectorizer {
+  private width = 0;
+  private height = 0;
+
+  constructor(private options: RasterVectorizerOptions) {}
+
+  vectorize(image: RasterImage): RasterVectorData {
+    this.width = image.width;
+    this.height = image.height;
+
+    const labels = this.classifyPixels(image);
+    const wallMask = this.maskOf(labels, WALL);
+    const restrictedMask = this.maskOf(labels, RESTRICTED);
+    const entranceMask = this.maskOf(labels, ENTRANCE);
+
+    // Scanning leaves specks and pinholes; text and stray marks are small isolated blobs
+    const cleanWallMask = this.majorityFilter(wallMask);
+    this.removeSmallComponents(cleanWallMask, this.options.minWallLength);
+
+    const distances = this.distanceTransform(cleanWallMask);
+    const skeleton = this.thin(cleanWallMask);
+    this.pruneSpurs(skeleton, this.options.minWallLength / 2);
+
+    return {
+      walls: this.fitWallStrokes(skeleton, distances),
+      restrictedZones: this.traceRegions(restrictedMask),
+      entranceOutlines: this.traceRegions(entranceMask)
+    };
+  }
+
+  private classifyPixels(image: RasterImage): Uint8Array {
+    const { data } = image;
+    const pixelCount = this.width * this.height;
+    const luminance = new Uint8Array(pixelCount);
+    const labels = new Uint8Array(pixelCount);
+    const classifier = new ColorClassifier(this.options.colorTolerance, DEFAULT_COLOR_REFERENCES);
+    const colorCache = new Map<number, number>();
+
+    for (let i = 0; i < pixelCount; i++) {
+      // Transparent pixels are paper
+      const alpha = data[i * 4 + 3] / 255;
+      const r = data[i * 4] * alpha + 255 * (1 - alpha);
+      const g = data[i * 4 + 1] * alpha + 255 * (1 - alpha);
+      const b = data[i * 4 + 2] * alpha + 255 * (1 - alpha);
+      luminance[i] = Math.round(0.2126 * r + 0.7152 * g + 0.0722 * b);
+
+      if (Math.max(r, g, b) - Math.min(r, g, b) < MIN_ZONE_CHROMA) continue;
+
+      // Colours are quantised to 5 bits per channel so each shade is classified once
+      const key = ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+      let label = colorCache.get(key);
+      if (label === undefined) {
+        const category = classifier.classify({ r, g, b });
+        label = category === 'restricted' ? RESTRICTED : category === 'entrance' ? ENTRANCE : BACKGROUND;
+        colorCache.set(key, label);
+      }
+      labels[i] = label;
+    }
+
+    const threshold = this.getOtsuThreshold(luminance);
+    for (let i = 0; i < pixelCount; i++) {
+      if (labels[i] === BACKGROUND && luminance[i] < threshold) {
+        labels[i] = WALL;
+      }
+    }
+
+    return labels;
+  }
+
+  private getOtsuThreshold(luminance: Uint8Array): number {
+    const histogram = new Array(256).fill(0);
+    luminance.forEach(value => histogram[value]++);
+
+    const total = luminance.length;
+    const sum = histogram.reduce((acc, count, value) => acc + count * value, 0);
+    let backgroundWeight = 0;
+    let backgroundSum = 0;
+    let bestVariance = -1;
+    let threshold = 128;
+
+    for (let t = 0; t < 256; t++) {
+      backgroundWeight += histogram[t];
+      if (backgroundWeight === 0) continue;
+      const foregroundWeight = total - backgroundWeight;
+      if (foregroundWeight === 0) break;
+
+      backgroundSum += t * histogram[t];
+      const meanBackground = backgroundSum / backgroundWeight;
+      const meanForeground = (sum - backgroundSum) / foregroundWeight;
+      const variance = backgroundWeight * foregroundWeight * (meanBackground - meanForeground) ** 2;
+      if (variance > bestVariance) {
+        bestVariance = variance;
+        threshold = t + 1;
+      }
+    }
+
+    // A blank sheet has no meaningful split; never treat mid-grey paper as ink
+    return Math.min(threshold, 160);
+  }
+
+  private maskOf(labels: Uint8Array, label: number): Uint8Array {
+    return labels.map(value => (value === label ? 1 : 0));
+  }
+
+  private majorityFilter(mask: Uint8Array): Uint8Array {
+    // A pixel keeps ink when at least 5 of its 3×3 neighbourhood do, which clears isolated
+    // specks and fills pinholes while leaving strokes two or more pixels wide intact
+    const { width, height } = this;
+    const result = new Uint8Array(mask.length);
+
+    for (let y = 1; y < height - 1; y++) {
+      for (let x = 1; x < width - 1; x++) {
+        let count = 0;
+        for (let dy = -1; dy <= 1; dy++) {
+          const row = (y + dy) * width + x;
+          count += mask[row - 1] + mask[row] + mask[row + 1];
+        }
+        result[y * width + x] = count >= 5 ? 1 : 0;
+      }
+    }
+
+    return result;
+  }
+
+  // Each component starts with its lowest index, the top-left pixel, since pixels are scanned in order
+  private findComponents(mask: Uint8Array): number[][] {
+    const { width, height } = this;
+    const visited = new Uint8Array(mask.length);
+    const components: number[][] = [];
+
+    for (let start = 0; start < mask.length; start++) {
+      if (!mask[start] || visited[start]) continue;
+
+      const component: number[] = [];
+      const stack = [start];
+      visited[start] = 1;
+      while (stack.length > 0) {
+        const index = stack.pop()!;
+        component.push(index);
+        const x = index % width;
+        const y = (index - x) / width;
+
+        DIRECTIONS.forEach(([dx, dy]) => {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx < 0 || ny < 0 || nx >= width || ny >= height) return;
+          const neighbour = ny * width + nx;
+          if (mask[neighbour] && !visited[neighbour]) {
+            visited[neighbour] = 1;
+            stack.push(neighbour);
+          }
+        });
+      }
+      components.push(component);
+    }
+
+    return components;
+  }
+
+  private getExtent(component: number[]): number {
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    component.forEach(index => {
+      const x = index % this.width;
+      const y = (index - x) / this.width;
+      minX = Math.min(minX, x);
+      minY = Math.min(minY, y);
+      maxX = Math.max(maxX, x);
+      maxY = Math.max(maxY, y);
+    });
+    return Math.max(maxX - minX, maxY - minY) + 1;
+  }
+
+  private removeSmallComponents(mask: Uint8Array, minExtent: number): void {
+    this.findComponents(mask).forEach(component => {
+      if (this.getExtent(component) < minExtent) {
+        component.forEach(index => { mask[index] = 0; });
+      }
+    });
+  }
+
+  private distanceTransform(mask: Uint8Array): Float32Array {
+    // Two-pass 3-4 chamfer distance to the nearest background pixel, in pixels
+    const { width, height } = this;
+    const distances = new Float32Array(mask.length);
+    const inf = width + height;
+    mask.forEach((value, index) => { distances[index] = value ? inf : 0; });
+
+    const relax = (index: number, x: number, y: number, dx: number, dy: number, cost: number) => {
+      const nx = x + dx;
+      const ny = y + dy;
+      const neighbour = nx < 0 || ny < 0 || nx >= width || ny >= height ? 0 : distances[ny * width + nx];
+      if (neighbour + cost < distances[index]) distances[index] = neighbour + cost;
+    };
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const index = y * width + x;
+        if (!distances[index]) continue;
+        relax(index, x, y, -1, 0, 1);
+        relax(index, x, y, 0, -1, 1);
+        relax(index, x, y, -1, -1, 4 / 3);
+        relax(index, x, y, 1, -1, 4 / 3);
+      }
+    }
+    for (let y = height - 1; y >= 0; y--) {
+      for (let x = width - 1; x >= 0; x--) {
+        const index = y * width + x;
+        if (!distances[index]) continue;
+        relax(index, x, y, 1, 0, 1);
+        relax(index, x, y, 0, 1, 1);
+        relax(index, x, y, 1, 1, 4 / 3);
+        relax(index, x, y, -1, 1, 4 / 3);
+      }
+    }
+
+    return distances;
+  }
+
+  private thin(mask: Uint8Array): Uint8Array {
+    // Zhang-Suen thinning, visiting only foreground pixels
+    const { width, height } = this;
+    const skeleton = mask.slice();
+    let foreground: number[] = [];
+    skeleton.forEach((value, index) => {
+      const x = index % width;
+      const y = (index - x) / width;
+      // Border pixels are cleared so every neighbour lookup stays inside the image
+      if (value && x > 0 && y > 0 && x < width - 1 && y < height - 1) foreground.push(index);
+      else skeleton[index] = 0;
+    });
+
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (let pass = 0; pass < 2; pass++) {
+        const removable = foreground.filter(index => this.isZhangSuenRemovable(skeleton, index, pass));
+        removable.forEach(index => { skeleton[index] = 0; });
+        if (removable.length > 0) {
+          changed = true;
+          foreground = foreground.filter(index => skeleton[index]);
+        }
+      }
+    }
+
+    return skeleton;
+  }
+
+  private isZhangSuenRemovable(skeleton: Uint8Array, index: number, pass: number): boolean {
+    const w = this.width;
+    // P2..P9 clockwise from north
+    const p = [
+      skeleton[index - w], skeleton[index - w + 1], skeleton[index + 1], skeleton[index + w + 1],
+      skeleton[index + w], skeleton[index + w - 1], skeleton[index - 1], skeleton[index - w - 1]
+    ];
+    const neighbours = p.reduce((sum, value) => sum + value, 0);
+    if (neighbours < 2 || neighbours > 6) return false;
+
+    let transitions = 0;
+    for (let i = 0; i < 8; i++) {
+      if (!p[i] && p[(i + 1) % 8]) transitions++;
+    }
+    if (transitions !== 1) return false;
+
+    return pass === 0
+      ? !(p[0] && p[2] && p[4]) && !(p[2] && p[4] && p[6])
+      : !(p[0] && p[2] && p[6]) && !(p[0] && p[4] && p[6]);
+  }
+
+  private pruneSpurs(skeleton: Uint8Array, maxLength: number): void {
+    // Bumps on a stroke's outline thin into short side branches; removing them also lets
+    // the two halves of the stroke either side of the junction trace as one chain
+    for (let round = 0; round < 3; round++) {
+      let pruned = false;
+
+      this.traceSkeletonChains(skeleton).forEach(chain => {
+        const startsFree = this.getNeighbours(skeleton, chain[0]).length === 1;
+        const endsFree = this.getNeighbours(skeleton, chain[chain.length - 1]).length === 1;
+        if (startsFree === endsFree || chain.length > maxLength) return;
+
+        // Keep the junction pixel, drop the rest of the branch
+        const branch = startsFree ? chain.slice(0, -1) : chain.slice(1);
+        branch.forEach(index => { skeleton[index] = 0; });
+        pruned = true;
+      });
+
+      if (!pruned) break;
+    }
+  }
+
+  private fitWallStrokes(skeleton: Uint8Array, distances: Float32Array): RasterWallStroke[] {
+    const strokes: RasterWallStroke[] = [];
+
+    this.traceSkeletonChains(skeleton).forEach(chain => {
+      const points = chain.map(index => this.toPoint(index));
+      const length = points.slice(1).reduce((sum, point, i) => sum + Math.hypot(point.x - points[i].x, point.y - points[i].y), 0);
+      if (length < this.options.minWallLength) return;
+
+      const kept = this.simplify(points, this.options.lineTolerance);
+      for (let i = 0; i < kept.length - 1; i++) {
+        const start = points[kept[i]];
+        const end = points[kept[i + 1]];
+
+        // The skeleton runs down the middle, so stroke width is twice the distance to the edge
+        const section = chain.slice(kept[i], kept[i + 1] + 1);
+        const meanDistance = section.reduce((sum, index) => sum + distances[index], 0) / section.length;
+        strokes.push({ start, end, thickness: Math.max(1, 2 * meanDistance - 1) });
+      }
+    });
+
+    return strokes;
+  }
+
+  private traceSkeletonChains(skeleton: Uint8Array): number[][] {
+    // Split the skeleton into pixel chains between end points and junctions
+    const neighbourCount = new Uint8Array(skeleton.length);
+    const pixels: number[] = [];
+    skeleton.forEach((value, index) => {
+      if (!value) return;
+      pixels.push(index);
+      neighbourCount[index] = this.getNeighbours(skeleton, index).length;
+    });
+
+    const isNode = (index: number) => neighbourCount[index] !== 2;
+    const visited = new Uint8Array(skeleton.length);
+    const chains: number[][] = [];
+
+    const walk = (from: number, next: number): number[] => {
+      const chain = [from];
+      let previous = from;
+      let current = next;
+      while (true) {
+        chain.push(current);
+        if (isNode(current) || visited[current]) break;
+        visited[current] = 1;
+        const onward = this.getNeighbours(skeleton, current).find(n => n !== previous && !(n === from && chain.length < 3));
+        if (onward === undefined) break;
+        previous = current;
+        current = onward;
+      }
+      return chain;
+    };
+
+    pixels.filter(isNode).forEach(node => {
+      visited[node] = 1;
+      this.getNeighbours(skeleton, node).forEach(neighbour => {
+        if (!isNode(neighbour) && visited[neighbour]) return;
+        if (isNode(neighbour) && neighbour < node) return; // Node-to-node links are traced once
+        chains.push(walk(node, neighbour));
+      });
+    });
+
+    // Closed loops without any junction
+    pixels.forEach(index => {
+      if (visited[index]) return;
+      visited[index] = 1;
+      const [next] = this.getNeighbours(skeleton, index);
+      if (next !== undefined) chains.push(walk(index, next));
+    });
+
+    return chains.filter(chain => chain.length >= 2);
+  }
+
+  private getNeighbours(mask: Uint8Array, index: number): number[] {
+    const x = index % this.width;
+    const y = (index - x) / this.width;
+    const neighbours: number[] = [];
+
+    DIRECTIONS.forEach(([dx, dy]) => {
+      const nx = x + dx;
+      const ny = y + dy;
+      if (nx < 0 || ny < 0 || nx >= this.width || ny >= this.height) return;
+      if (mask[ny * this.width + nx]) neighbours.push(ny * this.width + nx);
+    });
+
+    return neighbours;
+  }
+
+  private traceRegions(mask: Uint8Array): Point[][] {
+    // Zones become polygons traced around each connected region of their colour
+    return this.findComponents(mask)
+      .filter(component => this.getExtent(component) >= this.options.minWallLength)
+      .map(component => {
+        const contour = this.traceContour(mask, component[0]);
+        const kept = this.simplify(contour, this.options.lineTolerance);
+        return kept.map(index => contour[index]);
+      })
+      .filter(polygon => polygon.length >= 3);
+  }
+
+  private traceContour(mask: Uint8Array, start: number): Point[] {
+    // Moore-neighbour tracing; the start pixel is the region's top-left, so west of it is background
+    const contour: Point[] = [];
+    const maxSteps = 4 * mask.length;
+    let current = start;
+    let searchFrom = 6;
+
+    for (let step = 0; step < maxSteps; step++) {
+      contour.push(this.toPoint(current));
+      const x = current % this.width;
+      const y = (current - x) / this.width;
+
+      let moved = false;
+      for (let k = 0; k < 8; k++) {
+        const direction = (searchFrom + k) % 8;
+        const nx = x + DIRECTIONS[direction][0];
+        const ny = y + DIRECTIONS[direction][1];
+        if (nx < 0 || ny < 0 || nx >= this.width || ny >= this.height || !mask[ny * this.width + nx]) continue;
+
+        current = ny * this.width + nx;
+        searchFrom = (direction + 6) % 8;
+        moved = true;
+        break;
+      }
+
+      if (!moved || (current === start && contour.length > 2)) break;
+    }
+
+    return contour;
+  }
+
+  private simplify(points: Point[], tolerance: number): number[] {
+    // Ramer-Douglas-Peucker, returning the indices of the points kept
+    if (points.length <= 2) return points.map((_, index) => index);
+
+    const keep = new Uint8Array(points.length);
+    keep[0] = 1;
+    keep[points.length - 1] = 1;
+    const stack: [number, number][] = [[0, points.length - 1]];
+
+    while (stack.length > 0) {
+      const [first, last] = stack.pop()!;
+      let maxDistance = 0;
+      let farthest = -1;
+
+      for (let i = first + 1; i < last; i++) {
+        const distance = this.distanceToSegment(points[i], points[first], points[last]);
+        if (distance > maxDistance) {
+          maxDistance = distance;
+          farthest = i;
+        }
+      }
+
+      if (farthest !== -1 && maxDistance > tolerance) {
+        keep[farthest] = 1;
+        stack.push([first, farthest], [farthest, last]);
+      }
+    }
+
+    const indices: number[] = [];
+    keep.forEach((value, index) => { if (value) indices.push(index); });
+    return indices;
+  }
+
+  private distanceToSegment(point: Point, start: Point, end: Point): number {
+    const dx = end.x - start.x;
+    const dy = end.y - start.y;
+    const lengthSquared = dx * dx + dy * dy;
+    if (lengthSquared === 0) return Math.hypot(point.x - start.x, point.y - start.y);
+
+    const t = Math.max(0, Math.min(1, ((point.x - start.x) * dx + (point.y - start.y) * dy) / lengthSquared));
+    return Math.hypot(point.x - start.x - t * dx, point.y - start.y - t * dy);
+  }
+
+  private toPoint(index: number): Point {
+    const x = index % this.width;
+    return { x, y: (index - x) / this.width };
+  }
+}
@@ -0,0 +1,357 @@
+import { Point, Wall, Door, Window, Room } from '../types/cad';
+import { v4 as uuidv4 } from 'uuid';
+
+export interface RoomLabel {
+  text: string;
+  position: Point;
+}
+
+export interface RoomDetectionOptions {
+  minRoomArea: number; // Smaller faces are wall cavities, shafts or drafting slivers, in mm²
+  doorWidthTolerance: number; // Fraction an opening may differ from the width of its door or window
+}
+
+const DEFAULT_ROOM_OPTIONS: RoomDetectionOptions = {
+  minRoomArea: 1000000,
+  doorWidthTolerance: 0.5
+};
+
+// Labels that are only an area or a number annotate a room rather than name it
+const AREA_LABEL = /^[\d\s.,]+(m²|m2|sq\.?\s*m|sqm|ft²|sf)?$/i;
+
+// Open-air and through-floor spaces are enclosed by walls but are not rooms; they are holes in the envelope
+const VOID_LABEL = /\b(court|courtyard|patio|atrium|light ?well|void|shaft|cour|gaine|vide|tr[ée]mie|puits)\b/i;
+
+interface GraphEdge {
+  from: number;
+  to: number;
+  thickness: number;
+  doorId?: string; // Set on the virtual edges that close door openings
+}
+
+interface HalfEdge {
+  edge: GraphEdge;
+  from: number;
+  to: number;
+  angle: number;
+}
+
+interface Face {
+  vertices: number[];
+  edges: GraphEdge[]; // edges[i] runs from vertices[i] to vertices[i + 1]
+  area: number;
+}
+
+export class RoomDetector {
+  private options: RoomDetectionOptions;
+  private vertices: Point[] = [];
+
+  constructor(options: Partial<RoomDetectionOptions> = {}) {
+    this.options = { ...DEFAULT_ROOM_OPTIONS, ...options };
+  }
+
+  // Walls must form a planar graph (see WallTopologyHealer): rooms are the bounded faces
+  detect(walls: Wall[], doors: Door[], labels: RoomLabel[] = [], windows: Window[] = []): Room[] {
+    this.vertices = [];
+    const edges = this.buildEdges(walls);
+    edges.push(...this.closeOpenings(edges, doors, windows));
+
+    const enclosed = this.traceFaces(this.pruneDanglingEdges(edges))
+      .filter(face => face.area >= this.options.minRoomArea);
+    const names = this.assignLabels(enclosed, labels);
+    const faces = enclosed.filter(face => !VOID_LABEL.test(names.get(face) || ''));
+
+    const rooms = faces.map((face, index) => {
+      const outline = face.vertices.map(vertex => this.vertices[vertex]);
+      const { polygon, area } = this.getNetOutline(outline, face.edges, face.area);
+
+      return {
+        id: uuidv4(),
+        name: names.get(face) || `Room ${index + 1}`,
+        polygon,
+        area,
+        perimeter: this.getPerimeter(polygon),
+        doors: this.getRoomDoors(face, outline, doors)
+      };
+    });
+
+    console.log(`Detected ${rooms.length} rooms, ${rooms.filter((_, index) => names.has(faces[index])).length} of them labelled`);
+    return rooms;
+  }
+
+  private buildEdges(walls: Wall[]): GraphEdge[] {
+    const index = new Map<string, number>();
+    const vertexOf = (point: Point): number => {
+      const key = `${point.x.toFixed(3)},${point.y.toFixed(3)}`;
+      let vertex = index.get(key);
+      if (vertex === undefined) {
+        vertex = this.vertices.length;
+        this.vertices.push(point);
+        index.set(key, vertex);
+      }
+      return vertex;
+    };
+
+    return walls
+      .map(wall => ({ from: vertexOf(wall.start), to: vertexOf(wall.end), thickness: wall.thickness }))
+      .filter(edge => edge.from !== edge.to);
+  }
+
+  private closeOpenings(edges: GraphEdge[], doors: Door[], windows: Window[]): GraphEdge[] {
+    // A door or window sits between two loose wall ends about its own width apart
+    const openings: { position: Point; width: number; doorId?: string }[] = [
+      ...doors.map(door => ({ position: door.position, width: door.width, doorId: door.id })),
+      ...windows.map(window => ({ position: window.position, width: window.width }))
+    ];
+    const degree = this.getDegrees(edges);
+    const looseEnds = [...degree.entries()].filter(([, count]) => count === 1).map(([vertex]) => vertex);
+    const used = new Set<number>();
+    const closing: GraphEdge[] = [];
+
+    openings.forEach(opening => {
+      const reach = opening.width * (1 + this.options.doorWidthTolerance);
+      const nearby = looseEnds.filter(vertex =>
+        !used.has(vertex) && this.getDistance(this.vertices[vertex], opening.position) <= reach);
+
+      let best: { a: number; b: number; error: number } | null = null;
+      for (let i = 0; i < nearby.length; i++) {
+        for (let j = i + 1; j < nearby.length; j++) {
+          const gap = this.getDistance(this.vertices[nearby[i]], this.vertices[nearby[j]]);
+          const error = Math.abs(gap - opening.width) / opening.width;
+          if (error <= this.options.doorWidthTolerance && (!best || error < best.error)) {
+            best = { a: nearby[i], b: nearby[j], error };
+          }
+        }
+      }
+      if (!best) return;
+
+      used.add(best.a);
+      used.add(best.b);
+      closing.push({
+        from: best.a,
+        to: best.b,
+        thickness: Math.max(this.getEndThickness(edges, best.a), this.getEndThickness(edges, best.b)),
+        doorId: opening.doorId
+      });
+    });
+
+    return closing;
+  }
+
+  private pruneDanglingEdges(edges: GraphEdge[]): GraphEdge[] {
+    // Wall stubs bound no room and would add spikes to the faces around them
+    let remaining = edges;
+    let pruned = true;
+
+    while (pruned) {
+      const degree = this.getDegrees(remaining);
+      const kept = remaining.filter(edge => degree.get(edge.from)! > 1 && degree.get(edge.to)! > 1);
+      pruned = kept.length < remaining.length;
+      remaining = kept;
+    }
+
+    return remaining;
+  }
+
+  private traceFaces(edges: GraphEdge[]): Face[] {
+    // Outgoing half-edges around each vertex, counter-clockwise
+    const outgoing = new Map<number, HalfEdge[]>();
+    edges.forEach(edge => {
+      [[edge.from, edge.to], [edge.to, edge.from]].forEach(([from, to]) => {
+        const a = this.vertices[from];
+        const b = this.vertices[to];
+        const halfEdge = { edge, from, to, angle: Math.atan2(b.y - a.y, b.x - a.x) };
+        outgoing.set(from, [...(outgoing.get(from) || []), halfEdge]);
+      });
+    });
+    outgoing.forEach(list => list.sort((a, b) => a.angle - b.angle));
+
+    // Turning to the next half-edge clockwise from the reverse keeps each face on the left,
+    // so bounded faces come out counter-clockwise and the unbounded one clockwise
+    const visited = new Set<HalfEdge>();
+    const faces: Face[] = [];
+
+    outgoing.forEach(list => list.forEach(start => {
+      if (visited.has(start)) return;
+
+      const face: Face = { vertices: [], edges: [], area: 0 };
+      let current = start;
+      while (!visited.has(current)) {
+        visited.add(current);
+        face.vertices.push(current.from);
+        face.edges.push(current.edge);
+
+        const around = outgoing.get(current.to)!;
+        const reverse = around.findIndex(halfEdge => halfEdge.edge === current.edge && halfEdge.to === current.from);
+        current = around[(reverse - 1 + around.length) % around.length];
+      }
+
+      face.area = this.getSignedArea(face.vertices.map(vertex => this.vertices[vertex]));
+      if (face.area > 0) faces.push(face);
+    }));
+
+    return faces;
+  }
+
+  private getNetOutline(outline: Point[], edges: GraphEdge[], grossArea: number): { polygon: Point[]; area: number } {
+    // Move every edge inward by half its wall thickness and intersect neighbouring edges
+    const offsetLines = outline.map((start, i) => {
+      const end = outline[(i + 1) % outline.length];
+      const length = this.getDistance(start, end);
+      const normal = { x: -(end.y - start.y) / length, y: (end.x - start.x) / length };
+      const offset = edges[i].thickness / 2;
+      return {
+        start: { x: start.x + normal.x * offset, y: start.y + normal.y * offset },
+        end: { x: end.x + normal.x * offset, y: end.y + normal.y * offset }
+      };
+    });
+
+    const polygon: Point[] = [];
+    offsetLines.forEach((line, i) => {
+      const previous = offsetLines[(i - 1 + offsetLines.length) % offsetLines.length];
+      const corner = this.intersectLines(previous.start, previous.end, line.start, line.end);
+      if (corner) {
+        polygon.push(corner);
+      } else if (this.getDistance(previous.end, line.start) > 1) {
+        // Collinear edges of different thickness step from one face to the other
+        polygon.push(previous.end, line.start);
+      } else {
+        polygon.push(line.start);
+      }
+    });
+
+    const area = this.getSignedArea(polygon);
+    if (area > 0 && area <= grossArea) {
+      return { polygon: this.removeCollinearVertices(polygon), area };
+    }
+
+    // Offsetting folded a narrow or oddly shaped room over itself; fall back to the centreline outline
+    const wallArea = outline.reduce((sum, start, i) =>
+      sum + this.getDistance(start, outline[(i + 1) % outline.length]) * edges[i].thickness / 2, 0);
+    return { polygon: outline, area: Math.max(0, grossArea - wallArea) };
+  }
+
+  private getRoomDoors(face: Face, outline: Point[], doors: Door[]): string[] {
+    const ids = new Set(face.edges.filter(edge => edge.doorId).map(edge => edge.doorId!));
+
+    // Doors whose opening could not be matched still belong to the rooms they sit on the edge of
+    doors.forEach(door => {
+      if (ids.has(door.id)) return;
+      const distance = Math.min(...outline.map((start, i) =>
+        this.distancePointToSegment(door.position, start, outline[(i + 1) % outline.length])));
+      if (distance <= door.width / 2 || this.pointInPolygon(door.position, outline)) {
+        ids.add(door.id);
+      }
+    });
+
+    return [...ids];
+  }
+
+  private assignLabels(faces: Face[], labels: RoomLabel[]): Map<Face, string> {
+    const outlines = new Map(faces.map(face => [face, face.vertices.map(vertex => this.vertices[vertex])]));
+    const candidates = new Map<Face, RoomLabel[]>();
+
+    labels
+      .filter(label => label.text.trim() !== '' && !AREA_LABEL.test(label.text.trim()))
+      .forEach(label => {
+        // Faces of separate wall groups can nest; the label belongs to the innermost one
+        const containing = faces
+          .filter(face => this.pointInPolygon(label.position, outlines.get(face)!))
+          .sort((a, b) => a.area - b.area)[0];
+        if (containing) {
+          candidates.set(containing, [...(candidates.get(containing) || []), label]);
+        }
+      });
+
+    // Several labels in one room (name, number, finish): the one nearest the middle is the name
+    const names = new Map<Face, string>();
+    candidates.forEach((roomLabels, face) => {
+      const centre = this.getCentroid(outlines.get(face)!);
+      const nearest = roomLabels.reduce((best, label) =>
+        this.getDistance(label.position, centre) < this.getDistance(best.position, centre) ? label : best);
+      names.set(face, nearest.text.trim());
+    });
+
+    return names;
+  }
+
+  private removeCollinearVertices(polygon: Point[]): Point[] {
+    // T junctions on the far side of a wall leave vertices partway along a straight face
+    return polygon.filter((point, i) => {
+      const previous = polygon[(i - 1 + polygon.length) % polygon.length];
+      const next = polygon[(i + 1) % polygon.length];
+      const cross = (point.x - previous.x) * (next.y - point.y) - (point.y - previous.y) * (next.x - point.x);
+      return Math.abs(cross) > 1e-6 * this.getDistance(previous, point) * this.getDistance(point, next);
+    });
+  }
+
+  private getEndThickness(edges: GraphEdge[], vertex: number): number {
+    return edges.find(edge => edge.from === vertex || edge.to === vertex)?.thickness || 0;
+  }
+
+  private getDegrees(edges: GraphEdge[]): Map<number, number> {
+    const degree = new Map<number, number>();
+    edges.forEach(({ from, to }) => {
+      degree.set(from, (degree.get(from) || 0) + 1);
+      degree.set(to, (degree.get(to) || 0) + 1);
+    });
+    return degree;
+  }
+
+  private intersectLines(p1: Point, p2: Point, p3: Point, p4: Point): Point | null {
+    const d1 = { x: p2.x - p1.x, y: p2.y - p1.y };
+    const d2 = { x: p4.x - p3.x, y: p4.y - p3.y };
+    const cross = d1.x * d2.y - d1.y * d2.x;
+    if (Math.abs(cross) < 1e-9 * Math.hypot(d1.x, d1.y) * Math.hypot(d2.x, d2.y)) return null;
+
+    const t = ((p3.x - p1.x) * d2.y - (p3.y - p1.y) * d2.x) / cross;
+    return { x: p1.x + d1.x * t, y: p1.y + d1.y * t };
+  }
+
+  private getSignedArea(points: Point[]): number {
+    let area = 0;
+    for (let i = 0; i < points.length; i++) {
+      const j = (i + 1) % points.length;
+      area += points[i].x * points[j].y - points[j].x * points[i].y;
+    }
+    return area / 2;
+  }
+
+  private getCentroid(points: Point[]): Point {
+    return {
+      x: points.reduce((sum, point) => sum + point.x, 0) / points.length,
+      y: points.reduce((sum, point) => sum + point.y, 0) / points.length
+    };
+  }
+
+  private getPerimeter(points: Point[]): number {
+    return points.reduce((sum, point, i) => sum + this.getDistance(point, points[(i + 1) % points.length]), 0);
+  }
+
+  private distancePointToSegment(point: Point, start: Point, end: Point): number {
+    const dx = end.x - start.x;
+    const dy = end.y - start.y;
+    const lengthSquared = dx * dx + dy * dy;
+    const t = lengthSquared === 0
+      ? 0
+      : Math.max(0, Math.min(1, ((point.x - start.x) * dx + (point.y - start.y) * dy) / lengthSquared));
+    return this.getDistance(point, { x: start.x + dx * t, y: start.y + dy * t });
+  }
+
+  private pointInPolygon(point: Point, polygon: Point[]): boolean {
+    let inside = false;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+      if (
+        polygon[i].y > point.y !== polygon[j].y > point.y &&
+        point.x < ((polygon[j].x - polygon[i].x) * (point.y - polygon[i].y)) / (polygon[j].y - polygon[i].y) + polygon[i].x
+      ) {
+        inside = !inside;
+      }
+    }
+    return inside;
+  }
+
+  private getDistance(p1: Point, p2: Point): number {
+    return Math.hypot(p1.x - p2.x, p1.y - p2.y);
+  }
+}
@@ -0,0 +1,263 @@
+import { Point, Wall } from '../types/cad';
+import { v4 as uuidv4 } from 'uuid';
+
+export interface WallSegment {
+  start: Point;
+  end: Point;
+  layer: string;
+  thickness?: number; // Explicit thickness from the source entity, used when the line stays single
+}
+
+export interface WallPairingOptions {
+  minThickness: number; // Closest two faces of one wall can be, in mm
+  maxThickness: number; // Farthest apart two faces of one wall can be, in mm
+  angleTolerance: number; // Radians two faces may deviate from parallel
+  minOverlap: number; // Shortest length two faces must run alongside each other, in mm
+  defaultThickness: number; // Thickness given to lines without a partner
+}
+
+export interface WallPairingResult {
+  walls: Wall[];
+  pairedWalls: number;
+  unpairedLines: WallSegment[]; // Lines kept as single-line walls because no opposite face was found
+}
+
+const DEFAULT_PAIRING_OPTIONS: WallPairingOptions = {
+  minThickness: 50,
+  maxThickness: 500,
+  angleTolerance: 2 * Math.PI / 180,
+  minOverlap: 200,
+  defaultThickness: 200
+};
+
+// End points closer than this are treated as touching when recognising wall end caps
+const ENDPOINT_TOLERANCE = 5;
+
+type Interval = [number, number];
+
+interface SegmentState {
+  segment: WallSegment;
+  origin: Point;
+  direction: Point; // Unit vector from start to end
+  normal: Point; // Direction rotated 90° counter-clockwise
+  length: number;
+  angle: number; // Undirected angle in [0, π)
+  free: Interval[]; // Parts of the line not yet used as a wall face, in distance along the line
+}
+
+interface PairCandidate {
+  a: SegmentState;
+  b: SegmentState;
+  distance: number;
+  overlap: Interval; // Along a
+}
+
+export class WallPairer {
+  private options: WallPairingOptions;
+
+  constructor(options: Partial<WallPairingOptions> = {}) {
+    this.options = { ...DEFAULT_PAIRING_OPTIONS, ...options };
+  }
+
+  pair(segments: WallSegment[]): WallPairingResult {
+    const states = segments
+      .map(segment => this.createState(segment))
+      .filter((state): state is SegmentState => state !== null);
+
+    // Closest faces first, so a face is claimed by the wall it actually bounds
+    // rather than by a parallel line across the room
+    const candidates = this.findCandidates(states)
+      .sort((p, q) => p.distance - q.distance || (q.overlap[1] - q.overlap[0]) - (p.overlap[1] - p.overlap[0]));
+
+    const walls: Wall[] = [];
+    candidates.forEach(candidate => walls.push(...this.mergePair(candidate)));
+    const pairedWalls = walls.length;
+
+    const paired = states.filter(state => !this.isUntouched(state));
+    const unpairedLines: WallSegment[] = [];
+
+    states.forEach(state => {
+      if (this.isUntouched(state)) {
+        if (this.isEndCap(state, paired)) return;
+        unpairedLines.push(state.segment);
+        walls.push(this.createSingleLineWall(state.segment));
+        return;
+      }
+
+      // Short remnants of a paired face are corners and junctions already covered by another wall
+      state.free
+        .filter(([from, to]) => to - from > this.options.maxThickness)
+        .forEach(([from, to]) => {
+          const piece = { ...state.segment, start: this.pointAt(state, from), end: this.pointAt(state, to) };
+          unpairedLines.push(piece);
+          walls.push(this.createSingleLineWall(piece));
+        });
+    });
+
+    if (unpairedLines.length > 0) {
+      console.warn(`${unpairedLines.length} wall lines have no parallel face; kept as single-line walls`);
+    }
+
+    return { walls, pairedWalls, unpairedLines };
+  }
+
+  private createState(segment: WallSegment): SegmentState | null {
+    const dx = segment.end.x - segment.start.x;
+    const dy = segment.end.y - segment.start.y;
+    const length = Math.hypot(dx, dy);
+    if (length === 0) return null;
+
+    const direction = { x: dx / length, y: dy / length };
+    let angle = Math.atan2(dy, dx);
+    if (angle < 0) angle += Math.PI;
+    if (angle >= Math.PI) angle -= Math.PI;
+
+    return {
+      segment,
+      origin: segment.start,
+      direction,
+      normal: { x: -direction.y, y: direction.x },
+      length,
+      angle,
+      free: [[0, length]]
+    };
+  }
+
+  private findCandidates(states: SegmentState[]): PairCandidate[] {
+    const { angleTolerance } = this.options;
+    const sorted = [...states].sort((a, b) => a.angle - b.angle);
+    const candidates: PairCandidate[] = [];
+
+    for (let i = 0; i < sorted.length; i++) {
+      let j = i + 1;
+      for (; j < sorted.length && sorted[j].angle - sorted[i].angle <= angleTolerance; j++) {
+        const candidate = this.evaluatePair(sorted[i], sorted[j]);
+        if (candidate) candidates.push(candidate);
+      }
+
+      // Angles wrap at π, so lines just below π are also parallel to lines just above 0
+      for (let k = sorted.length - 1; k >= j && Math.PI - sorted[k].angle + sorted[i].angle <= angleTolerance; k--) {
+        const candidate = this.evaluatePair(sorted[i], sorted[k]);
+        if (candidate) candidates.push(candidate);
+      }
+    }
+
+    return candidates;
+  }
+
+  private evaluatePair(a: SegmentState, b: SegmentState): PairCandidate | null {
+    const { minThickness, maxThickness, minOverlap } = this.options;
+    const startT = this.alongLine(a, b.segment.start);
+    const endT = this.alongLine(a, b.segment.end);
+    const startD = this.acrossLine(a, b.segment.start);
+    const endD = this.acrossLine(a, b.segment.end);
+
+    // Both ends of b must sit on the same side of a at a plausible wall thickness
+    if (Math.sign(startD) !== Math.sign(endD)) return null;
+    const distance = (Math.abs(startD) + Math.abs(endD)) / 2;
+    if (distance < minThickness || distance > maxThickness) return null;
+
+    const overlap: Interval = [Math.max(0, Math.min(startT, endT)), Math.min(a.length, Math.max(startT, endT))];
+    if (overlap[1] - overlap[0] < minOverlap) return null;
+
+    return { a, b, distance, overlap };
+  }
+
+  private mergePair({ a, b, overlap }: PairCandidate): Wall[] {
+    // Only the parts of both faces that are still unclaimed can form this wall
+    const freeB = b.free.map(([from, to]) => {
+      const t1 = this.alongLine(a, this.pointAt(b, from));
+      const t2 = this.alongLine(a, this.pointAt(b, to));
+      return [Math.min(t1, t2), Math.max(t1, t2)] as Interval;
+    });
+    const shared = this.intersect(this.intersect(a.free, [overlap]), freeB)
+      .filter(([from, to]) => to - from >= this.options.minOverlap);
+
+    return shared.map(([from, to]) => {
+      const faceA1 = this.pointAt(a, from);
+      const faceA2 = this.pointAt(a, to);
+      const offset1 = this.acrossToLine(faceA1, a.normal, b);
+      const offset2 = this.acrossToLine(faceA2, a.normal, b);
+
+      a.free = this.subtract(a.free, [from, to]);
+      const s1 = this.alongLine(b, { x: faceA1.x + a.normal.x * offset1, y: faceA1.y + a.normal.y * offset1 });
+      const s2 = this.alongLine(b, { x: faceA2.x + a.normal.x * offset2, y: faceA2.y + a.normal.y * offset2 });
+      b.free = this.subtract(b.free, [Math.min(s1, s2), Math.max(s1, s2)]);
+
+      // The longer face names the wall, so an exterior face wins over a lining
+      const layer = a.length >= b.length ? a.segment.layer : b.segment.layer;
+      return {
+        id: uuidv4(),
+        start: { x: faceA1.x + a.normal.x * offset1 / 2, y: faceA1.y + a.normal.y * offset1 / 2 },
+        end: { x: faceA2.x + a.normal.x * offset2 / 2, y: faceA2.y + a.normal.y * offset2 / 2 },
+        thickness: (Math.abs(offset1) + Math.abs(offset2)) / 2,
+        layer
+      };
+    });
+  }
+
+  private isUntouched(state: SegmentState): boolean {
+    return state.free.length === 1 && state.free[0][0] === 0 && state.free[0][1] === state.length;
+  }
+
+  private isEndCap(state: SegmentState, paired: SegmentState[]): boolean {
+    // A short line joining the ends of two paired faces closes off a wall end
+    if (state.length > this.options.maxThickness * 1.2) return false;
+
+    const touchesFace = (point: Point) => paired.some(face =>
+      this.isNear(point, face.segment.start) || this.isNear(point, face.segment.end));
+    return touchesFace(state.segment.start) && touchesFace(state.segment.end);
+  }
+
+  private createSingleLineWall(segment: WallSegment): Wall {
+    return {
+      id: uuidv4(),
+      start: segment.start,
+      end: segment.end,
+      thickness: segment.thickness || this.options.defaultThickness,
+      layer: segment.layer
+    };
+  }
+
+  private acrossLine(state: SegmentState, point: Point): number {
+    return (point.x - state.origin.x) * state.normal.x + (point.y - state.origin.y) * state.normal.y;
+  }
+
+  private alongLine(state: SegmentState, point: Point): number {
+    return (point.x - state.origin.x) * state.direction.x + (point.y - state.origin.y) * state.direction.y;
+  }
+
+  private acrossToLine(point: Point, normal: Point, line: SegmentState): number {
+    // Signed distance from point along normal until it meets the infinite line
+    const denominator = normal.x * line.normal.x + normal.y * line.normal.y;
+    return ((line.origin.x - point.x) * line.normal.x + (line.origin.y - point.y) * line.normal.y) / denominator;
+  }
+
+  private pointAt(state: SegmentState, t: number): Point {
+    return { x: state.origin.x + state.direction.x * t, y: state.origin.y + state.direction.y * t };
+  }
+
+  private isNear(p1: Point, p2: Point): boolean {
+    return Math.hypot(p1.x - p2.x, p1.y - p2.y) <= ENDPOINT_TOLERANCE;
+  }
+
+  private intersect(first: Interval[], second: Interval[]): Interval[] {
+    const result: Interval[] = [];
+    first.forEach(([a1, a2]) => second.forEach(([b1, b2]) => {
+      const from = Math.max(a1, b1);
+      const to = Math.min(a2, b2);
+      if (to > from) result.push([from, to]);
+    }));
+    return result;
+  }
+
+  private subtract(intervals: Interval[], [from, to]: Interval): Interval[] {
+    return intervals.flatMap(([a1, a2]): Interval[] => {
+      if (to <= a1 || from >= a2) return [[a1, a2]];
+      const remaining: Interval[] = [];
+      if (from > a1) remaining.push([a1, from]);
+      if (to < a2) remaining.push([to, a2]);
+      return remaining;
+    });
+  }
+}
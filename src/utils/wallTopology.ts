@@ -0,0 +1,325 @@
+import { Point, Wall } from '../types/cad';
+import { v4 as uuidv4 } from 'uuid';
+
+export interface WallHealingOptions {
+  snapTolerance: number; // End points and junctions closer than this are the same vertex, in mm
+  gapTolerance: number; // Longest gap a loose wall end is extended across to meet another wall, in mm
+  overshootTolerance: number; // Loose pieces this short beyond a junction are overshoots and removed, in mm
+  angleTolerance: number; // Radians within which two walls count as collinear
+}
+
+const DEFAULT_HEALING_OPTIONS: WallHealingOptions = {
+  snapTolerance: 10,
+  gapTolerance: 500,
+  overshootTolerance: 100,
+  angleTolerance: Math.PI / 180
+};
+
+interface WallEdge {
+  from: number;
+  to: number;
+  wall: Wall;
+}
+
+interface SplitPoint {
+  t: number; // Distance along the wall from its start
+  point: Point;
+}
+
+export class WallTopologyHealer {
+  private options: WallHealingOptions;
+
+  constructor(options: Partial<WallHealingOptions> = {}) {
+    this.options = { ...DEFAULT_HEALING_OPTIONS, ...options };
+  }
+
+  // Turns loosely drawn walls into a planar graph: every junction is a shared vertex
+  // and walls only meet at their end points
+  heal(walls: Wall[]): Wall[] {
+    const merged = this.mergeOverlaps(walls.filter(wall => this.getLength(wall) > this.options.snapTolerance));
+    const extended = this.extendLooseEnds(merged);
+    const split = this.splitAtIntersections(extended);
+    const { nodes, edges } = this.buildGraph(split);
+    const trimmed = this.trimOvershoots(nodes, edges);
+    const result = this.mergeCollinearChains(nodes, trimmed)
+      .map(({ from, to, wall }) => ({ ...wall, start: nodes[from], end: nodes[to] }));
+
+    console.log(`Healed wall topology: ${walls.length} walls in, ${result.length} walls between ${nodes.length} vertices out`);
+    return result;
+  }
+
+  private mergeOverlaps(walls: Wall[]): Wall[] {
+    // Collinear walls that run over each other are one wall drawn twice or in overlapping pieces
+    const result: Wall[] = [];
+
+    walls.forEach(wall => {
+      let current = { ...wall };
+      let index = result.findIndex(existing => this.overlapsCollinear(existing, current));
+      while (index !== -1) {
+        current = this.unionCollinear(result[index], current);
+        result.splice(index, 1);
+        index = result.findIndex(existing => this.overlapsCollinear(existing, current));
+      }
+      result.push(current);
+    });
+
+    return result;
+  }
+
+  private overlapsCollinear(a: Wall, b: Wall): boolean {
+    if (!this.isCollinear(a, b)) return false;
+
+    const length = this.getLength(a);
+    const t1 = this.alongWall(a, b.start);
+    const t2 = this.alongWall(a, b.end);
+    return Math.min(length, Math.max(t1, t2)) - Math.max(0, Math.min(t1, t2)) > this.options.snapTolerance;
+  }
+
+  private unionCollinear(a: Wall, b: Wall): Wall {
+    const direction = this.getDirection(a);
+    const ts = [0, this.getLength(a), this.alongWall(a, b.start), this.alongWall(a, b.end)];
+    const from = Math.min(...ts);
+    const to = Math.max(...ts);
+
+    return {
+      ...a,
+      start: { x: a.start.x + direction.x * from, y: a.start.y + direction.y * from },
+      end: { x: a.start.x + direction.x * to, y: a.start.y + direction.y * to },
+      thickness: Math.max(a.thickness, b.thickness)
+    };
+  }
+
+  private extendLooseEnds(walls: Wall[]): Wall[] {
+    const result = walls.map(wall => ({ ...wall }));
+
+    result.forEach(wall => {
+      (['start', 'end'] as const).forEach(end => {
+        if (this.isConnected(wall[end], wall, result)) return;
+
+        // Cast a ray outward from the loose end and stop at the nearest wall, or the nearest
+        // wall's extension when that wall also falls short of the junction
+        const outward = this.getDirection(wall);
+        const sign = end === 'end' ? 1 : -1;
+        const ray = { x: outward.x * sign, y: outward.y * sign };
+        let best: { distance: number; point: Point; target: Wall; targetEnd: 'start' | 'end' | null } | null = null;
+
+        for (const target of result) {
+          if (target === wall) continue;
+          const hit = this.intersectRay(wall[end], ray, target);
+          if (!hit || hit.distance <= 0 || hit.distance > this.options.gapTolerance) continue;
+
+          const targetLength = this.getLength(target);
+          let targetEnd: 'start' | 'end' | null = null;
+          if (hit.along < -this.options.snapTolerance) targetEnd = 'start';
+          if (hit.along > targetLength + this.options.snapTolerance) targetEnd = 'end';
+          if (targetEnd) {
+            const overrun = targetEnd === 'start' ? -hit.along : hit.along - targetLength;
+            if (overrun > this.options.gapTolerance || this.isConnected(target[targetEnd], target, result)) continue;
+          }
+
+          if (!best || hit.distance < best.distance) {
+            best = { distance: hit.distance, point: hit.point, target, targetEnd };
+          }
+        }
+
+        if (best) {
+          const { point, target, targetEnd } = best;
+          wall[end] = point;
+          if (targetEnd) target[targetEnd] = point;
+        }
+      });
+    });
+
+    return result;
+  }
+
+  private splitAtIntersections(walls: Wall[]): Wall[] {
+    const { snapTolerance } = this.options;
+    const splits: SplitPoint[][] = walls.map(() => []);
+
+    for (let i = 0; i < walls.length; i++) {
+      for (let j = i + 1; j < walls.length; j++) {
+        const hit = this.intersectRay(walls[i].start, this.getDirection(walls[i]), walls[j]);
+        if (!hit) continue;
+
+        // Crossings and T junctions, including ends that stop just short of or just past the other wall
+        const lengthI = this.getLength(walls[i]);
+        const lengthJ = this.getLength(walls[j]);
+        if (hit.distance < -snapTolerance || hit.distance > lengthI + snapTolerance) continue;
+        if (hit.along < -snapTolerance || hit.along > lengthJ + snapTolerance) continue;
+
+        splits[i].push({ t: hit.distance, point: hit.point });
+        splits[j].push({ t: hit.along, point: hit.point });
+      }
+    }
+
+    return walls.flatMap((wall, index) => {
+      const length = this.getLength(wall);
+      const atStart = splits[index].filter(split => split.t <= snapTolerance);
+      const atEnd = splits[index].filter(split => split.t >= length - snapTolerance);
+      const interior = splits[index]
+        .filter(split => split.t > snapTolerance && split.t < length - snapTolerance)
+        .sort((a, b) => a.t - b.t)
+        .filter((split, i, sorted) => i === 0 || split.t - sorted[i - 1].t > snapTolerance);
+
+      // Junctions at an end replace the end point so both walls share the vertex exactly
+      const vertices = [
+        atStart.length > 0 ? atStart[0].point : wall.start,
+        ...interior.map(split => split.point),
+        atEnd.length > 0 ? atEnd[0].point : wall.end
+      ];
+
+      return vertices.slice(1).map((vertex, piece) => ({
+        ...wall,
+        id: piece === 0 ? wall.id : uuidv4(),
+        start: vertices[piece],
+        end: vertex
+      }));
+    });
+  }
+
+  private buildGraph(walls: Wall[]): { nodes: Point[]; edges: WallEdge[] } {
+    const nodes: Point[] = [];
+    const findNode = (point: Point): number => {
+      const index = nodes.findIndex(node => this.getDistance(node, point) <= this.options.snapTolerance);
+      if (index !== -1) return index;
+      nodes.push(point);
+      return nodes.length - 1;
+    };
+
+    const edges: WallEdge[] = [];
+    const seen = new Map<string, WallEdge>();
+    walls.forEach(wall => {
+      const from = findNode(wall.start);
+      const to = findNode(wall.end);
+      if (from === to) return;
+
+      // The same two vertices joined twice is a duplicate wall; keep the thicker one
+      const key = from < to ? `${from}:${to}` : `${to}:${from}`;
+      const existing = seen.get(key);
+      if (existing) {
+        if (wall.thickness > existing.wall.thickness) existing.wall = wall;
+        return;
+      }
+      const edge = { from, to, wall };
+      seen.set(key, edge);
+      edges.push(edge);
+    });
+
+    return { nodes, edges };
+  }
+
+  private trimOvershoots(nodes: Point[], edges: WallEdge[]): WallEdge[] {
+    const degree = this.getDegrees(edges);
+
+    // A short piece from a junction to a loose end is where a wall ran past the wall it meets
+    return edges.filter(({ from, to }) => {
+      const loose = degree.get(from) === 1 ? from : degree.get(to) === 1 ? to : null;
+      if (loose === null) return true;
+      const junction = loose === from ? to : from;
+      return (degree.get(junction) || 0) < 3 || this.getDistance(nodes[from], nodes[to]) >= this.options.overshootTolerance;
+    });
+  }
+
+  private mergeCollinearChains(nodes: Point[], edges: WallEdge[]): WallEdge[] {
+    // Pieces of one straight wall meeting at a vertex nothing else touches become one wall again
+    const result = [...edges];
+    let merged = true;
+
+    while (merged) {
+      merged = false;
+      const incident = new Map<number, WallEdge[]>();
+      result.forEach(edge => {
+        [edge.from, edge.to].forEach(node => incident.set(node, [...(incident.get(node) || []), edge]));
+      });
+
+      for (const [node, pair] of incident) {
+        if (pair.length !== 2) continue;
+        const [a, b] = pair;
+        const outerA = a.from === node ? a.to : a.from;
+        const outerB = b.from === node ? b.to : b.from;
+        if (outerA === outerB) continue;
+        if (Math.abs(a.wall.thickness - b.wall.thickness) > this.options.snapTolerance) continue;
+
+        const candidate = { ...a.wall, start: nodes[outerA], end: nodes[outerB] };
+        if (!this.isCollinear(candidate, { ...b.wall, start: nodes[node], end: nodes[outerB] })) continue;
+        if (!this.isCollinear(candidate, { ...a.wall, start: nodes[outerA], end: nodes[node] })) continue;
+
+        result.splice(result.indexOf(a), 1);
+        result.splice(result.indexOf(b), 1);
+        result.push({ from: outerA, to: outerB, wall: candidate });
+        merged = true;
+        break;
+      }
+    }
+
+    return result;
+  }
+
+  private getDegrees(edges: WallEdge[]): Map<number, number> {
+    const degree = new Map<number, number>();
+    edges.forEach(({ from, to }) => {
+      degree.set(from, (degree.get(from) || 0) + 1);
+      degree.set(to, (degree.get(to) || 0) + 1);
+    });
+    return degree;
+  }
+
+  private isConnected(point: Point, self: Wall, walls: Wall[]): boolean {
+    return walls.some(other => other !== self && this.distanceToWall(point, other) <= this.options.snapTolerance);
+  }
+
+  private isCollinear(a: Wall, b: Wall): boolean {
+    const da = this.getDirection(a);
+    const db = this.getDirection(b);
+    if (Math.abs(da.x * db.y - da.y * db.x) > Math.sin(this.options.angleTolerance)) return false;
+
+    // Both ends of b must lie on a's line
+    const normal = { x: -da.y, y: da.x };
+    const offset = (point: Point) => Math.abs((point.x - a.start.x) * normal.x + (point.y - a.start.y) * normal.y);
+    return offset(b.start) <= this.options.snapTolerance && offset(b.end) <= this.options.snapTolerance;
+  }
+
+  private intersectRay(origin: Point, direction: Point, wall: Wall): { distance: number; along: number; point: Point } | null {
+    // origin + direction·distance = wall.start + wallDirection·along, both in mm
+    const wallDirection = this.getDirection(wall);
+    const cross = direction.x * wallDirection.y - direction.y * wallDirection.x;
+    if (Math.abs(cross) < Math.sin(this.options.angleTolerance)) return null;
+
+    const dx = wall.start.x - origin.x;
+    const dy = wall.start.y - origin.y;
+    const distance = (dx * wallDirection.y - dy * wallDirection.x) / cross;
+    const along = (dx * direction.y - dy * direction.x) / cross;
+
+    return {
+      distance,
+      along,
+      point: { x: origin.x + direction.x * distance, y: origin.y + direction.y * distance }
+    };
+  }
+
+  private distanceToWall(point: Point, wall: Wall): number {
+    const length = this.getLength(wall);
+    const t = Math.max(0, Math.min(length, this.alongWall(wall, point)));
+    const direction = this.getDirection(wall);
+    return this.getDistance(point, { x: wall.start.x + direction.x * t, y: wall.start.y + direction.y * t });
+  }
+
+  private alongWall(wall: Wall, point: Point): number {
+    const direction = this.getDirection(wall);
+    return (point.x - wall.start.x) * direction.x + (point.y - wall.start.y) * direction.y;
+  }
+
+  private getDirection(wall: Wall): Point {
+    const length = this.getLength(wall) || 1;
+    return { x: (wall.end.x - wall.start.x) / length, y: (wall.end.y - wall.start.y) / length };
+  }
+
+  private getLength(wall: Wall): number {
+    return this.getDistance(wall.start, wall.end);
+  }
+
+  private getDistance(p1: Point, p2: Point): number {
+    return Math.hypot(p1.x - p2.x, p1.y - p2.y);
+  }
+}
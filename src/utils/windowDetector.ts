@@ -0,0 +1,174 @@
+import { Point, Wall, Window } from '../types/cad';
+import { v4 as uuidv4 } from 'uuid';
+
+export interface GlazingLine {
+  start: Point;
+  end: Point;
+}
+
+export interface WindowDetectionOptions {
+  minWidth: number; // Narrowest window opening, in mm
+  maxWidth: number; // Widest window opening, in mm
+  minGlazingCoverage: number; // Fraction of the opening a glazing line must span
+  glazingTolerance: number; // How far beyond the wall face a glazing line may sit, in mm
+  blockSnapDistance: number; // How far a window block may sit from its wall centreline, in mm
+}
+
+const DEFAULT_WINDOW_OPTIONS: WindowDetectionOptions = {
+  minWidth: 300,
+  maxWidth: 6000,
+  minGlazingCoverage: 0.9,
+  glazingTolerance: 50,
+  blockSnapDistance: 300
+};
+
+const WINDOW_HEIGHT = 1200;
+const SILL_HEIGHT = 900;
+
+// Walls and glazing within this angle of each other run along the same line
+const PARALLEL_TOLERANCE = 10 * Math.PI / 180;
+
+export class WindowDetector {
+  private options: WindowDetectionOptions;
+
+  constructor(options: Partial<WindowDetectionOptions> = {}) {
+    this.options = { ...DEFAULT_WINDOW_OPTIONS, ...options };
+  }
+
+  // Walls must be healed first so each opening sits between two collinear wall ends
+  detect(walls: Wall[], glazing: GlazingLine[], blockWindows: Window[] = []): Window[] {
+    const gapWindows: Window[] = [];
+
+    for (let i = 0; i < walls.length; i++) {
+      for (let j = i + 1; j < walls.length; j++) {
+        const window = this.detectGapWindow(walls[i], walls[j], walls, glazing);
+        if (window) gapWindows.push(window);
+      }
+    }
+
+    // A block drawn in a detected opening adds nothing; the rest are placed on their wall
+    const placedBlocks = blockWindows
+      .filter(block => !gapWindows.some(window => this.getDistance(window.position, block.position) <= window.width / 2))
+      .map(block => this.snapToWall(block, walls));
+
+    console.log(`Detected ${gapWindows.length} windows from wall openings and ${placedBlocks.length} from window blocks`);
+    return [...gapWindows, ...placedBlocks];
+  }
+
+  private detectGapWindow(a: Wall, b: Wall, walls: Wall[], glazing: GlazingLine[]): Window | null {
+    const gap = this.findWallGap(a, b);
+    if (!gap) return null;
+
+    const { start, end } = gap;
+    const width = this.getDistance(start, end);
+    const axis = { x: (end.x - start.x) / width, y: (end.y - start.y) / width };
+    const position = { x: (start.x + end.x) / 2, y: (start.y + end.y) / 2 };
+
+    // Glazing is drawn as lines spanning the whole opening inside the wall band
+    const band = Math.max(a.thickness, b.thickness) / 2 + this.options.glazingTolerance;
+    const glazed = glazing.some(line => {
+      const direction = this.getDirection(line);
+      if (Math.abs(direction.x * axis.y - direction.y * axis.x) > Math.sin(PARALLEL_TOLERANCE)) return false;
+
+      const offset = (point: Point) => Math.abs((point.x - start.x) * axis.y - (point.y - start.y) * axis.x);
+      if (offset(line.start) > band || offset(line.end) > band) return false;
+
+      const along = [line.start, line.end].map(point => (point.x - start.x) * axis.x + (point.y - start.y) * axis.y);
+      const covered = Math.min(width, Math.max(...along)) - Math.max(0, Math.min(...along));
+      return covered >= width * this.options.minGlazingCoverage;
+    });
+    if (!glazed || !this.isExterior(position, axis, walls)) return null;
+
+    return {
+      id: uuidv4(),
+      position,
+      width,
+      height: WINDOW_HEIGHT,
+      sillHeight: SILL_HEIGHT,
+      angle: Math.atan2(axis.y, axis.x) * 180 / Math.PI,
+      wallId: a.id
+    };
+  }
+
+  private isExterior(position: Point, axis: Point, walls: Wall[]): boolean {
+    // Nothing is built beyond an exterior wall, so one of its two sides looks out past every wall
+    const normal = { x: -axis.y, y: axis.x };
+    return [1, -1].some(sign =>
+      !walls.some(wall => this.rayHitsSegment(position, { x: normal.x * sign, y: normal.y * sign }, wall.start, wall.end)));
+  }
+
+  private snapToWall(window: Window, walls: Wall[]): Window {
+    let best: { wall: Wall; point: Point; distance: number } | null = null;
+
+    for (const wall of walls) {
+      const point = this.projectOntoSegment(window.position, wall.start, wall.end);
+      const distance = this.getDistance(window.position, point);
+      if (distance <= wall.thickness / 2 + this.options.blockSnapDistance && (!best || distance < best.distance)) {
+        best = { wall, point, distance };
+      }
+    }
+    if (!best) return window;
+
+    const direction = this.getDirection(best.wall);
+    return {
+      ...window,
+      position: best.point,
+      angle: Math.atan2(direction.y, direction.x) * 180 / Math.PI,
+      wallId: best.wall.id
+    };
+  }
+
+  private findWallGap(a: Wall, b: Wall): { start: Point; end: Point } | null {
+    // Two collinear walls whose facing ends leave an opening between them
+    const direction = this.getDirection(a);
+    const other = this.getDirection(b);
+    if (Math.abs(direction.x * other.y - direction.y * other.x) > Math.sin(PARALLEL_TOLERANCE)) return null;
+
+    const tolerance = Math.max(a.thickness, b.thickness) / 2;
+    const offset = (point: Point) => Math.abs((point.x - a.start.x) * direction.y - (point.y - a.start.y) * direction.x);
+    if (offset(b.start) > tolerance || offset(b.end) > tolerance) return null;
+
+    const along = (point: Point) => (point.x - a.start.x) * direction.x + (point.y - a.start.y) * direction.y;
+    const aRange = [0, this.getDistance(a.start, a.end)];
+    const bRange = [along(b.start), along(b.end)].sort((p, q) => p - q);
+    const [gapStart, gapEnd] = bRange[0] >= aRange[1] ? [aRange[1], bRange[0]] : bRange[1] <= aRange[0] ? [bRange[1], aRange[0]] : [0, 0];
+
+    const width = gapEnd - gapStart;
+    if (width < this.options.minWidth || width > this.options.maxWidth) return null;
+
+    return {
+      start: { x: a.start.x + direction.x * gapStart, y: a.start.y + direction.y * gapStart },
+      end: { x: a.start.x + direction.x * gapEnd, y: a.start.y + direction.y * gapEnd }
+    };
+  }
+
+  private rayHitsSegment(origin: Point, direction: Point, start: Point, end: Point): boolean {
+    const edge = { x: end.x - start.x, y: end.y - start.y };
+    const denominator = direction.x * edge.y - direction.y * edge.x;
+    if (Math.abs(denominator) < 1e-9) return false;
+
+    const toStart = { x: start.x - origin.x, y: start.y - origin.y };
+    const t = (toStart.x * edge.y - toStart.y * edge.x) / denominator;
+    const u = (toStart.x * direction.y - toStart.y * direction.x) / denominator;
+    return t > 1e-6 && u >= 0 && u <= 1;
+  }
+
+  private projectOntoSegment(point: Point, start: Point, end: Point): Point {
+    const dx = end.x - start.x;
+    const dy = end.y - start.y;
+    const lengthSquared = dx * dx + dy * dy;
+    const t = lengthSquared === 0
+      ? 0
+      : Math.max(0, Math.min(1, ((point.x - start.x) * dx + (point.y - start.y) * dy) / lengthSquared));
+    return { x: start.x + dx * t, y: start.y + dy * t };
+  }
+
+  private getDirection(line: { start: Point; end: Point }): Point {
+    const length = this.getDistance(line.start, line.end) || 1;
+    return { x: (line.end.x - line.start.x) / length, y: (line.end.y - line.start.y) / length };
+  }
+
+  private getDistance(p1: Point, p2: Point): number {
+    return Math.hypot(p1.x - p2.x, p1.y - p2.y);
+  }
+}
@@ -0,0 +1,87 @@
+import { RestrictedArea } from '../types/cad';
+import { ColorClassifier, ColorReference, RGBColor } from './colorClassifier';
+
+export type ZoneType = RestrictedArea['type'];
+
+export interface FilledZone {
+  layer: string;
+  pattern?: string; // Hatch pattern name, e.g. 'ANSI31' or 'SOLID'
+  solid: boolean; // Solid fill rather than a line pattern
+  color: RGBColor;
+}
+
+export interface ZoneClassifierOptions {
+  layerKeywords: { keyword: string; type: ZoneType }[]; // Searched for in layer names, first match wins
+  structuralPatterns: string[]; // Hatch patterns drawn for concrete, masonry and steel
+  colorReferences: ColorReference<ZoneType>[]; // Only consulted for solid fills
+  colorTolerance: number; // Largest CIE76 ΔE between a fill colour and a reference colour
+}
+
+const DEFAULT_ZONE_OPTIONS: ZoneClassifierOptions = {
+  layerKeywords: [
+    { keyword: 'ELEC', type: 'ELECTRICAL' },
+    { keyword: 'TGBT', type: 'ELECTRICAL' },
+    { keyword: 'SERVER', type: 'ELECTRICAL' },
+    { keyword: 'TELECOM', type: 'ELECTRICAL' },
+    { keyword: 'MECH', type: 'MECHANICAL' },
+    { keyword: 'HVAC', type: 'MECHANICAL' },
+    { keyword: 'PLUMB', type: 'MECHANICAL' },
+    { keyword: 'CVC', type: 'MECHANICAL' },
+    { keyword: 'PLOMB', type: 'MECHANICAL' },
+    { keyword: 'VENTIL', type: 'MECHANICAL' },
+    { keyword: 'LOCAL TECH', type: 'MECHANICAL' },
+    { keyword: 'STRUCT', type: 'STRUCTURAL' },
+    { keyword: 'COLS', type: 'STRUCTURAL' },
+    { keyword: 'COLUMN', type: 'STRUCTURAL' },
+    { keyword: 'CONC', type: 'STRUCTURAL' },
+    { keyword: 'CORE', type: 'STRUCTURAL' },
+    { keyword: 'POTEAU', type: 'STRUCTURAL' },
+    { keyword: 'VOILE', type: 'STRUCTURAL' },
+    { keyword: 'BETON', type: 'STRUCTURAL' },
+    { keyword: 'NO ENTREE', type: 'NO_ENTRY' },
+    { keyword: 'INTERDIT', type: 'NO_ENTRY' }
+  ],
+  structuralPatterns: ['AR-CONC', 'ANSI32', 'ANSI33', 'AR-B816', 'AR-BRSTD', 'STEEL'],
+  // Dark solid fills are poché for concrete cores and columns; yellow marks electrical rooms
+  colorReferences: [
+    { category: 'STRUCTURAL', color: { r: 0, g: 0, b: 0 } },
+    { category: 'STRUCTURAL', color: { r: 64, g: 64, b: 64 } },
+    { category: 'STRUCTURAL', color: { r: 128, g: 128, b: 128 } },
+    { category: 'ELECTRICAL', color: { r: 255, g: 255, b: 0 } },
+    { category: 'ELECTRICAL', color: { r: 250, g: 204, b: 21 } }
+  ],
+  colorTolerance: 20
+};
+
+export class ZoneClassifier {
+  private options: ZoneClassifierOptions;
+  private colorClassifier: ColorClassifier<ZoneType>;
+
+  constructor(options: Partial<ZoneClassifierOptions> = {}) {
+    this.options = { ...DEFAULT_ZONE_OPTIONS, ...options };
+    this.colorClassifier = new ColorClassifier(this.options.colorTolerance, this.options.colorReferences);
+  }
+
+  // Zone type named by the layer or the hatch pattern, or null when neither marks the fill as a zone
+  classifyName(layer: string, pattern?: string): ZoneType | null {
+    const normalized = this.normalize(layer);
+    const keyword = this.options.layerKeywords.find(({ keyword }) => normalized.includes(keyword));
+    if (keyword) return keyword.type;
+
+    if (pattern && this.options.structuralPatterns.includes(this.normalize(pattern))) {
+      return 'STRUCTURAL';
+    }
+    return null;
+  }
+
+  // Layer name first, then hatch pattern, then the colour of solid fills; unmarked zones are simply off limits
+  classify(zone: FilledZone): ZoneType {
+    return this.classifyName(zone.layer, zone.pattern) ??
+      (zone.solid ? this.colorClassifier.classify(zone.color) : null) ??
+      'NO_ENTRY';
+  }
+
+  private normalize(value: string): string {
+    return value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toUpperCase().trim();
+  }
+}
@@ -1,9 +1,14 @@
 
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 
 export default defineConfig({
   plugins: [react()],
+  optimizeDeps: {
+    // LibreDWG finds its .wasm next to its own script, which pre-bundling would move
+    exclude: ['@mlightcad/libredwg-web']
+  },
   server: {
     host: '0.0.0.0',
     port: 5000,
@@ -14,5 +19,9 @@ export default defineConfig({
   preview: {
     host: '0.0.0.0',
     port: 4173
+  },
+  test: {
+    // Tests run in Node, which needs pdf.js's legacy build
+    alias: [{ find: /^pdfjs-dist$/, replacement: 'pdfjs-dist/legacy/build/pdf.mjs' }]
   }
 })